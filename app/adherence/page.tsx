@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { loadStoredData } from '@/app/lib/stored-data'
+import type { DoseEvent, Medication } from '@/app/lib/validation'
+import {
+  calculateAdherence,
+  loadDoseEvents,
+  reconcileMissedDoses,
+  saveDoseEvents,
+} from '@/app/lib/dose-history'
+
+const RANGE_OPTIONS = [30, 90] as const
+
+export default function AdherencePage() {
+  const [medications, setMedications] = useState<Medication[]>([])
+  const [doseEvents, setDoseEvents] = useState<DoseEvent[]>([])
+  const [rangeDays, setRangeDays] = useState<typeof RANGE_OPTIONS[number]>(30)
+
+  useEffect(() => {
+    const load = async () => {
+      const meds = await loadStoredData<Medication[]>('medications')
+      setMedications(meds)
+      setDoseEvents(await saveDoseEvents(reconcileMissedDoses(meds, await loadDoseEvents())))
+    }
+    load()
+  }, [])
+
+  const formatDose = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+  return (
+    <main className="container">
+      <div className="disclaimer-banner warning">
+        <strong>Important:</strong> If you have missed a dose of an immunosuppressant, contact your transplant team for advice. Do not double up doses unless told to. <Link href="/disclaimer">Read full disclaimer</Link>
+      </div>
+
+      <header className="header">
+        <Link href="/medications" className="back-link">
+          ← Back to Medications
+        </Link>
+        <h1>Dose Adherence</h1>
+        <p>Doses taken and missed over time</p>
+      </header>
+
+      <div className="card">
+        <div className="tabs">
+          {RANGE_OPTIONS.map((days) => (
+            <button
+              key={days}
+              className={`tab-btn ${rangeDays === days ? 'active' : ''}`}
+              onClick={() => setRangeDays(days)}
+            >
+              Last {days} days
+            </button>
+          ))}
+        </div>
+
+        {medications.length === 0 ? (
+          <div className="empty-state">
+            <p>No medications added yet</p>
+          </div>
+        ) : doseEvents.length === 0 ? (
+          <div className="empty-state">
+            <p>No doses recorded yet</p>
+            <p className="form-hint">Tap &quot;Mark as Taken&quot; on a medication or a reminder to start tracking.</p>
+          </div>
+        ) : (
+          medications.map((med) => {
+            const stats = calculateAdherence(med.id, doseEvents, rangeDays)
+            return (
+              <div key={med.id} className="medication-card adherence-card">
+                <div className="med-header">
+                  <h3>{med.name}</h3>
+                  <span className={`adherence-percent ${stats.percent !== null && stats.percent < 90 ? 'low' : ''}`}>
+                    {stats.percent !== null ? `${stats.percent}%` : '—'}
+                  </span>
+                </div>
+                <p className="med-dosage">
+                  {stats.taken} taken · {stats.missed} missed · {stats.streakDays}-day streak
+                </p>
+                {stats.missedDoses.length > 0 && (
+                  <div className="missed-doses">
+                    <strong>Missed doses</strong>
+                    <ul>
+                      {stats.missedDoses.slice(0, 10).map((dose) => (
+                        <li key={dose.id}>{formatDose(dose.scheduledTime)}</li>
+                      ))}
+                    </ul>
+                    {stats.missedDoses.length > 10 && (
+                      <p className="form-hint">and {stats.missedDoses.length - 10} more</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </main>
+  )
+}
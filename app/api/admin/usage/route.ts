@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { summarizeUsage } from '@/app/lib/usage-ledger'
+import crypto from 'crypto'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 90 // The ledger keeps daily totals this long
+
+/**
+ * Claude usage totals by day, with estimated cost, for the operator.
+ * Requires "Authorization: Bearer <ADMIN_SECRET>".
+ */
+export async function GET(request: NextRequest) {
+  const adminSecret = process.env.ADMIN_SECRET
+  if (!adminSecret) {
+    return NextResponse.json(
+      { error: 'Usage reporting not configured on server' },
+      { status: 503 }
+    )
+  }
+
+  const authorization = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${adminSecret}`)
+  if (authorization.length !== expected.length || !crypto.timingSafeEqual(authorization, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const requestedDays = Number(request.nextUrl.searchParams.get('days') ?? DEFAULT_DAYS)
+  if (!Number.isInteger(requestedDays) || requestedDays < 1 || requestedDays > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a whole number from 1 to ${MAX_DAYS}` },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json(summarizeUsage(requestedDays), {
+    headers: { 'Cache-Control': 'no-store' },
+  })
+}
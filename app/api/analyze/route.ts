@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
-import { checkRateLimit, getClientIdentifier } from '@/app/lib/rate-limit'
-
-// Rate limit: 20 requests per minute per IP
-const RATE_LIMIT_CONFIG = {
-  maxRequests: 20,
-  windowMs: 60 * 1000, // 1 minute
-}
+import {
+  checkClientRateLimit,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
+import {
+  createAnalysisStreamParser,
+  parseAnalysisResponse,
+  type AnalysisResult,
+  type AnalysisStreamEvent,
+} from '@/app/lib/analysis'
+import { INTERACTION_RULES, scanForInteractions } from '@/app/lib/interactions'
+import { buildProfilePrompt, getTransplantPhase } from '@/app/lib/patient-profile'
+import { validatePatientProfile, type PatientProfile } from '@/app/lib/validation'
+import { checkUsageQuota, getUsageKey, quotaExceededResponse, recordUsage } from '@/app/lib/usage-ledger'
+import { describeLlmError, getLlmClient, isLlmConfigured, type LlmContentBlock } from '@/app/lib/llm'
 
 const KIDNEY_ANALYSIS_PROMPT = `You are a nutrition expert specializing in post-kidney transplant care. Analyze these nutrition facts label(s) and/or ingredients list(s) and evaluate whether this food is appropriate for a kidney transplant patient.
 
@@ -14,11 +23,7 @@ NOTE: The user may have uploaded multiple images showing different sides of the
 
 CRITICAL - GRAPEFRUIT DETECTION:
 Carefully scan ALL ingredients for ANY of these that interfere with immunosuppressant medications (tacrolimus, cyclosporine, sirolimus):
-- Grapefruit, grapefruit juice, grapefruit extract, grapefruit oil
-- Pomelo, pummelo, pomelo juice
-- Seville orange, bitter orange, marmalade (often contains Seville orange)
-- Starfruit (carambola)
-- Tangelo (grapefruit hybrid)
+${INTERACTION_RULES.map((rule) => `- ${rule.label}: ${rule.terms.join(', ')}`).join('\n')}
 - Citrus flavoring or natural citrus flavors (may contain grapefruit)
 
 If ANY of these are detected, the verdict MUST be "avoid" and include a prominent drug interaction warning.
@@ -32,63 +37,91 @@ Consider these key factors for kidney transplant patients:
 6. **Saturated fat** - Limit to protect heart health (immunosuppressants increase cardiovascular risk)
 7. **Food safety** - Note any raw/undercooked concerns (immunosuppressed patients are at higher infection risk)
 
-Provide your response in this exact format:
-
-VERDICT: [safe/caution/avoid]
-
-SUMMARY: [One sentence summary of your assessment for transplant patients]
-
-ANALYSIS:
-
-### Drug Interaction Warning
-[If grapefruit, pomelo, starfruit, Seville orange, or tangelo detected: Display "⚠️ DANGER: This product contains [ingredient] which can cause dangerous interactions with immunosuppressant medications including tacrolimus (Prograf), cyclosporine (Neoral, Sandimmune), and sirolimus (Rapamune). DO NOT CONSUME." If none detected: "No known drug interactions detected."]
-
-### Key Nutrients Identified
-[List the nutrients and their levels from the label]
-
-### Ingredients Analysis
-[List any notable ingredients found, especially any concerning ones for transplant patients]
-
-### Concerns for Transplant Patients
-[Specific issues with this food for kidney transplant recipients]
+Respond in this exact JSON format (no markdown, just pure JSON):
+{
+  "productName": "Name of the product as printed on the package, or a short description if no name is visible",
+  "verdict": "safe" | "caution" | "avoid",
+  "summary": "One sentence summary of your assessment for transplant patients",
+  "servingSize": "Serving size as printed on the label (e.g. \"1 cup (240ml)\"), or null if not visible",
+  "ingredientsText": "The complete ingredients list transcribed exactly as printed, or an empty string if no ingredients list is visible",
+  "nutrients": {
+    "sodium": { "amount": 0, "unit": "mg", "percentDailyValue": 0 },
+    "potassium": { "amount": 0, "unit": "mg", "percentDailyValue": 0 },
+    "phosphorus": { "amount": 0, "unit": "mg", "percentDailyValue": 0 },
+    "protein": { "amount": 0, "unit": "g", "percentDailyValue": 0 },
+    "addedSugar": { "amount": 0, "unit": "g", "percentDailyValue": 0 },
+    "saturatedFat": { "amount": 0, "unit": "g", "percentDailyValue": 0 }
+  },
+  "interactionIngredients": ["Each ingredient from the grapefruit detection list found in the ingredients, exactly as printed"],
+  "guidance": {
+    "early": "Specific recommendations for the early post-transplant phase (0-3 months) when immunosuppression is highest and the body is healing. Address food safety concerns, infection risks, and healing needs.",
+    "late": "Recommendations for the late post-transplant phase (3+ months), focusing on long-term health, weight management, cardiovascular health, and diabetes prevention."
+  },
+  "analysis": "Markdown text with these sections, each starting with a ### heading: Drug Interaction Warning, Key Nutrients Identified, Ingredients Analysis, Concerns for Transplant Patients, Recommendation"
+}
 
-### Early Post-Transplant (0-3 months)
-[Specific recommendations for patients in the early recovery phase when immunosuppression is highest and the body is healing. Address food safety concerns, infection risks, and healing needs.]
+Nutrient rules:
+- "amount" is the amount per serving as a number, converted to the unit shown above (e.g. 0.5g sodium is 500 mg)
+- Use null for "amount" or "percentDailyValue" when the label does not show that value
+- Use an empty array for "interactionIngredients" when none are detected
 
-### Late Post-Transplant (3+ months)
-[Recommendations for patients in the maintenance phase, focusing on long-term health, weight management, cardiovascular health, and diabetes prevention.]
+In the Drug Interaction Warning section: if any ingredient from the grapefruit detection list is detected, write "⚠️ DANGER: This product contains [ingredient] which can cause dangerous interactions with immunosuppressant medications including tacrolimus (Prograf), cyclosporine (Neoral, Sandimmune), and sirolimus (Rapamune). DO NOT CONSUME." If none are detected, write "No known drug interactions detected."
 
-### Recommendation
-[Overall guidance on whether and how to consume this food]
+Be specific about the numbers you see and explain why they matter for transplant patients. If you cannot read certain parts of the label clearly, mention that in the analysis. Only output valid JSON, nothing else.`
 
-Be specific about the numbers you see and explain why they matter for transplant patients. If you cannot read certain parts of the label clearly, mention that.`
+// Appended after the patient profile when the client sends one
+const PROFILE_ANALYSIS_INSTRUCTIONS = `Base the verdict and summary on this specific patient:
+- Compare each nutrient per serving against the patient's daily targets where given (for example, one serving using more than a third of a daily target deserves caution)
+- If the patient has diabetes, weigh added sugars more heavily
+- If the food contains any of the patient's allergies, the verdict MUST be "avoid" and the summary must say which allergen was found
+- Still fill in both "early" and "late" guidance, but make the guidance for the patient's current phase the most specific`
 
 // Maximum image size: 10MB (base64 encoded adds ~33% overhead)
 const MAX_IMAGE_SIZE_BYTES = 10 * 1024 * 1024
 const MAX_IMAGES = 4
 const ALLOWED_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const
 
+// Check the transcribed ingredients against the interaction rules ourselves.
+// A match always forces "avoid", whatever verdict the model chose.
+function applyInteractionRules(result: AnalysisResult, profile: PatientProfile | null): AnalysisResult {
+  result.interactionMatches = scanForInteractions(
+    [result.productName, result.ingredientsText, ...result.interactionIngredients].join('\n')
+  )
+  if (result.interactionMatches.length > 0) {
+    result.verdict = 'avoid'
+  }
+  result.transplantPhase = profile ? getTransplantPhase(profile) : null
+  return result
+}
+
 export async function POST(request: NextRequest) {
-  try {
-    // Check rate limit first
-    const clientId = getClientIdentifier(request)
-    const rateLimitResult = checkRateLimit(`analyze:${clientId}`, RATE_LIMIT_CONFIG)
-
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { error: 'Too many requests. Please try again later.' },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': String(Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)),
-            'X-RateLimit-Remaining': '0',
-          }
-        }
-      )
-    }
+  const rateLimitResult = checkClientRateLimit('analyze', request)
+  if (!rateLimitResult) {
+    return unidentifiedClientResponse()
+  }
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult)
+  }
+  return withRateLimitHeaders(await analyzeLabel(request), rateLimitResult)
+}
 
+async function analyzeLabel(request: NextRequest): Promise<Response> {
+  try {
     const body = await request.json()
 
+    // Optional patient profile used to personalize the verdict
+    let profile: PatientProfile | null = null
+    if (body.profile !== undefined && body.profile !== null) {
+      const profileValidation = validatePatientProfile(body.profile)
+      if (!profileValidation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid patient profile', details: profileValidation.errors },
+          { status: 400 }
+        )
+      }
+      profile = body.profile as PatientProfile
+    }
+
     // Support both single image (legacy) and multiple images
     let imageArray: string[] = []
     if (body.images && Array.isArray(body.images)) {
@@ -106,13 +139,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: `Maximum ${MAX_IMAGES} images allowed` }, { status: 400 })
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
+    if (!isLlmConfigured()) {
       return NextResponse.json({ error: 'API key not configured on server' }, { status: 500 })
     }
 
     // Process and validate all images
-    const imageContents: Anthropic.ImageBlockParam[] = []
+    const imageContents: LlmContentBlock[] = []
 
     for (const image of imageArray) {
       // Validate image is a string
@@ -151,72 +183,83 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Initialize Anthropic client with user's API key
-    const anthropic = new Anthropic({
-      apiKey: apiKey,
-    })
+    // Stop before calling Claude once this device or its network has used up today's quota
+    const usageKey = getUsageKey(request)
+    if (!usageKey) {
+      return unidentifiedClientResponse()
+    }
+    const quota = checkUsageQuota(usageKey, 'analyze')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
 
     // Build message content with all images + the prompt
-    const messageContent: (Anthropic.ImageBlockParam | Anthropic.TextBlockParam)[] = [
+    const messageContent: LlmContentBlock[] = [
       ...imageContents,
       {
         type: 'text',
-        text: KIDNEY_ANALYSIS_PROMPT,
+        text: profile
+          ? `${KIDNEY_ANALYSIS_PROMPT}\n\n${buildProfilePrompt(profile)}\n\n${PROFILE_ANALYSIS_INSTRUCTIONS}`
+          : KIDNEY_ANALYSIS_PROMPT,
       },
     ]
 
-    // Call Claude with vision capabilities
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: messageContent,
-        },
-      ],
+    // Stream from Claude so the verdict can be shown before the full analysis is written.
+    // The request signal aborts the upstream call when the user cancels.
+    const upstream = await getLlmClient().stream({
+      task: 'analyze',
+      content: messageContent,
+      signal: request.signal,
     })
 
-    // Extract the text response
-    const textContent = response.content.find((block) => block.type === 'text')
-    if (!textContent || textContent.type !== 'text') {
-      return NextResponse.json({ error: 'No response from Claude' }, { status: 500 })
-    }
-
-    const responseText = textContent.text
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AnalysisStreamEvent) => {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+        }
+        const parser = createAnalysisStreamParser()
 
-    // Parse the response
-    const verdictMatch = responseText.match(/VERDICT:\s*(safe|caution|avoid)/i)
-    const summaryMatch = responseText.match(/SUMMARY:\s*(.+?)(?=\n\n|ANALYSIS:)/is)
-    const analysisMatch = responseText.match(/ANALYSIS:\s*([\s\S]+)$/i)
+        try {
+          for await (const text of upstream.text) {
+            parser.push(text).forEach(send)
+          }
 
-    const verdict = (verdictMatch?.[1]?.toLowerCase() || 'caution') as 'safe' | 'caution' | 'avoid'
-    const summary = summaryMatch?.[1]?.trim() || 'Analysis complete.'
-    const analysis = analysisMatch?.[1]?.trim() || responseText
+          // Parse and validate the structured response
+          const result = parseAnalysisResponse(parser.text())
+          send(result
+            ? { type: 'result', result: applyInteractionRules(result, profile) }
+            : { type: 'error', error: 'Could not read the analysis. Please try again.' })
+        } catch (error) {
+          if (request.signal.aborted) return
+          console.error('Analysis stream error:', error)
+          send({ type: 'error', error: describeLlmError(error, 'analyze').error })
+        } finally {
+          // Cancelled analyses still count for the tokens spent so far
+          recordUsage(usageKey, 'analyze', upstream.usage())
+          try {
+            controller.close()
+          } catch {
+            // Already closed because the client went away
+          }
+        }
+      },
+      cancel() {
+        upstream.abort()
+      },
+    })
 
-    return NextResponse.json({
-      verdict,
-      summary,
-      analysis,
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
     })
   } catch (error) {
     // Log detailed error server-side only (not exposed to client)
     console.error('Analysis error:', error)
 
-    if (error instanceof Anthropic.APIError) {
-      if (error.status === 401) {
-        return NextResponse.json({ error: 'Service configuration error' }, { status: 500 })
-      }
-      if (error.status === 429) {
-        return NextResponse.json({ error: 'Service temporarily busy. Please try again.' }, { status: 503 })
-      }
-      // Don't expose detailed API errors to client
-      return NextResponse.json({ error: 'Analysis service unavailable' }, { status: 503 })
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to analyze image. Please try again.' },
-      { status: 500 }
-    )
+    const { error: message, status } = describeLlmError(error, 'analyze')
+    return NextResponse.json({ error: message }, { status })
   }
 }
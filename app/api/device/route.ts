@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getInstallToken, issueInstallToken, verifyInstallToken } from '@/app/lib/device-token'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+  type RateLimitPolicyName,
+} from '@/app/lib/rate-limit'
+
+async function rateLimited(
+  request: NextRequest,
+  policy: RateLimitPolicyName,
+  handler: (request: NextRequest) => NextResponse
+): Promise<NextResponse> {
+  const clientId = getClientIdentifier(request)
+  if (!clientId) {
+    return unidentifiedClientResponse()
+  }
+  const rateLimitResult = checkRateLimit(policy, clientId)
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult)
+  }
+  return withRateLimitHeaders(handler(request), rateLimitResult)
+}
+
+/**
+ * Register an app install. The returned install token is sent as X-Install-Token on
+ * analysis and meal requests so they are rate limited per install rather than per IP.
+ */
+export function POST(request: NextRequest) {
+  return rateLimited(request, 'device-register', () => {
+    const { installId, token } = issueInstallToken()
+    return NextResponse.json({ installId, installToken: token })
+  })
+}
+
+/**
+ * Check the install token in X-Install-Token. A 401 tells the app this server no longer
+ * accepts it (e.g. the signing secret changed), so it registers again.
+ */
+export function GET(request: NextRequest) {
+  return rateLimited(request, 'device-check', () => {
+    const installId = verifyInstallToken(getInstallToken(request))
+    if (!installId) {
+      return NextResponse.json({ error: 'Invalid install token' }, { status: 401 })
+    }
+    return NextResponse.json({ installId })
+  })
+}
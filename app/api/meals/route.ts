@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
-import { checkRateLimit, getClientIdentifier } from '@/app/lib/rate-limit'
-
-// Rate limit: 30 requests per minute per IP
-const RATE_LIMIT_CONFIG = {
-  maxRequests: 30,
-  windowMs: 60 * 1000, // 1 minute
-}
+import {
+  checkClientRateLimit,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
+import { buildProfilePrompt } from '@/app/lib/patient-profile'
+import { validatePatientProfile, type PatientProfile } from '@/app/lib/validation'
+import { checkUsageQuota, getUsageKey, quotaExceededResponse, recordUsage } from '@/app/lib/usage-ledger'
+import { describeLlmError, getLlmClient, isLlmConfigured } from '@/app/lib/llm'
+import { extractJsonObject } from '@/app/lib/analysis'
 
 const MEAL_PROMPT = `You are a nutrition expert specializing in kidney transplant patient care. Generate 5 safe and healthy meal recommendations for a kidney transplant patient.
 
@@ -59,30 +62,31 @@ Respond in this exact JSON format (no markdown, just pure JSON):
 
 Make the meals practical, delicious, and easy to prepare. Only output valid JSON, nothing else.`
 
+// Appended after the patient profile when the client sends one
+const PROFILE_MEAL_INSTRUCTIONS = `Tailor every meal to this patient:
+- Keep each meal well within a fair share of the patient's daily sodium, potassium and phosphorus targets where given
+- If the patient has diabetes, keep meals low in added sugar and refined carbohydrates
+- Never include any of the patient's allergies as an ingredient
+- In the early post-transplant phase, favor simple, fully cooked meals that are easy to prepare safely`
+
 // Whitelist of allowed meal types to prevent prompt injection
 const ALLOWED_MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snacks'] as const
 type MealType = typeof ALLOWED_MEAL_TYPES[number]
 
 export async function POST(request: NextRequest) {
-  try {
-    // Check rate limit first
-    const clientId = getClientIdentifier(request)
-    const rateLimitResult = checkRateLimit(`meals:${clientId}`, RATE_LIMIT_CONFIG)
-
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { error: 'Too many requests. Please try again later.' },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': String(Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)),
-            'X-RateLimit-Remaining': '0',
-          }
-        }
-      )
-    }
+  const rateLimitResult = checkClientRateLimit('meals', request)
+  if (!rateLimitResult) {
+    return unidentifiedClientResponse()
+  }
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult)
+  }
+  return withRateLimitHeaders(await generateMeals(request), rateLimitResult)
+}
 
-    const { mealType } = await request.json()
+async function generateMeals(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { mealType, profile } = await request.json()
 
     if (!mealType) {
       return NextResponse.json({ error: 'Meal type is required' }, { status: 400 })
@@ -94,55 +98,58 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid meal type' }, { status: 400 })
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
+    // Optional patient profile used to personalize the meals
+    if (profile !== undefined && profile !== null) {
+      const profileValidation = validatePatientProfile(profile)
+      if (!profileValidation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid patient profile', details: profileValidation.errors },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!isLlmConfigured()) {
       return NextResponse.json({ error: 'API key not configured' }, { status: 500 })
     }
 
-    const anthropic = new Anthropic({ apiKey })
+    // Stop before calling Claude once this device or its network has used up today's quota
+    const usageKey = getUsageKey(request)
+    if (!usageKey) {
+      return unidentifiedClientResponse()
+    }
+    const quota = checkUsageQuota(usageKey, 'meals')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
 
     // Use validated mealType to prevent injection
-    const prompt = MEAL_PROMPT.replace('{MEAL_TYPE}', normalizedMealType)
-
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1536,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    })
-
-    const textContent = response.content.find((block) => block.type === 'text')
-    if (!textContent || textContent.type !== 'text') {
+    let prompt = MEAL_PROMPT.replace('{MEAL_TYPE}', normalizedMealType)
+    if (profile) {
+      prompt += `\n\n${buildProfilePrompt(profile as PatientProfile)}\n\n${PROFILE_MEAL_INSTRUCTIONS}`
+    }
+
+    const response = await getLlmClient().complete({ task: 'meals', content: prompt, signal: request.signal })
+    recordUsage(usageKey, 'meals', response.usage)
+
+    if (!response.text) {
       return NextResponse.json({ error: 'No response from Claude' }, { status: 500 })
     }
 
-    // Parse the JSON response
-    const mealsData = JSON.parse(textContent.text)
+    // Parse the JSON response, tolerating markdown fences the model sometimes adds anyway
+    const json = extractJsonObject(response.text)
+    const mealsData = json ? JSON.parse(json) : null
+    if (!Array.isArray(mealsData?.meals)) {
+      return NextResponse.json({ error: 'Failed to generate meals. Please try again.' }, { status: 500 })
+    }
 
     return NextResponse.json(mealsData)
   } catch (error) {
     // Log detailed error server-side only (not exposed to client)
     console.error('Meal generation error:', error)
 
-    if (error instanceof SyntaxError) {
-      return NextResponse.json({ error: 'Failed to generate meals. Please try again.' }, { status: 500 })
-    }
-
-    if (error instanceof Anthropic.APIError) {
-      if (error.status === 429) {
-        return NextResponse.json({ error: 'Service temporarily busy. Please try again.' }, { status: 503 })
-      }
-      // Don't expose detailed API errors to client
-      return NextResponse.json({ error: 'Meal service unavailable' }, { status: 503 })
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to generate meals. Please try again.' },
-      { status: 500 }
-    )
+    // Unparseable model output falls through to the generic failure message
+    const { error: message, status } = describeLlmError(error, 'meals')
+    return NextResponse.json({ error: message }, { status })
   }
 }
@@ -1,16 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { generateSecureIdFromEndpoint, isConfigured } from '@/app/lib/push-notifications'
+import { reminderScheduler } from '@/app/lib/reminder-scheduler'
+import { getDeviceToken, verifyDeviceToken } from '@/app/lib/device-token'
+import crypto from 'crypto'
 
-// This endpoint is called by the service worker during periodic sync
-// In a full implementation, this would check a database for due reminders
-// For this PWA, medications are stored client-side, so this returns an empty response
+// GET is called by the service worker during periodic sync and returns doses due for its subscription.
+// POST is called by a cron job (every minute or so) and pushes due doses for every synced schedule.
+// Both share the scheduler's record of delivered reminders, so a dose is only reminded once.
 
 export async function GET(request: NextRequest) {
-  // In a production app with server-side storage, you would:
-  // 1. Get the user ID from authentication
-  // 2. Query the database for medications with reminders due
-  // 3. Return any reminders that need to be shown
+  const endpoint = request.nextUrl.searchParams.get('endpoint')
+
+  if (!endpoint) {
+    return NextResponse.json(
+      { error: 'Endpoint is required' },
+      { status: 400 }
+    )
+  }
+
+  // Reminders name the user's medications, so only the subscribed device may read them
+  const id = generateSecureIdFromEndpoint(endpoint)
+  if (!verifyDeviceToken(getDeviceToken(request), id)) {
+    return NextResponse.json(
+      { error: 'Invalid device token' },
+      { status: 401 }
+    )
+  }
 
   return NextResponse.json({
-    reminders: []
+    reminders: reminderScheduler.collectDueReminders(id)
   })
 }
+
+export async function POST(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || !isConfigured()) {
+    return NextResponse.json(
+      { error: 'Reminder scheduler not configured on server' },
+      { status: 503 }
+    )
+  }
+
+  const authorization = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  if (authorization.length !== expected.length || !crypto.timingSafeEqual(authorization, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await reminderScheduler.sendDueReminders()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error sending due reminders:', error)
+    return NextResponse.json(
+      { error: 'Failed to send reminders' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateSecureIdFromEndpoint, getSubscription } from '@/app/lib/push-notifications'
+import { saveReminderSchedule, removeReminderSchedule } from '@/app/lib/reminder-store'
+import { validateReminderSync, type Medication } from '@/app/lib/validation'
+import { getDeviceToken, verifyDeviceToken } from '@/app/lib/device-token'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
+
+// Opt-in sync of the medication schedule so reminders can be sent while the app is closed
+
+// Saving and removing share one limit per client
+async function rateLimited(
+  request: NextRequest,
+  handler: (request: NextRequest) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const clientId = getClientIdentifier(request)
+  if (!clientId) {
+    return unidentifiedClientResponse()
+  }
+  const rateLimitResult = checkRateLimit('push-schedule', clientId)
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult)
+  }
+  return withRateLimitHeaders(await handler(request), rateLimitResult)
+}
+
+export function PUT(request: NextRequest) {
+  return rateLimited(request, saveSchedule)
+}
+
+async function saveSchedule(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json()
+    const { endpoint, medications, timeZone, privateReminders } = body
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return NextResponse.json(
+        { error: 'Endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    const validation = validateReminderSync({ medications, timeZone, privateReminders })
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid reminder schedule', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const id = generateSecureIdFromEndpoint(endpoint)
+    if (!verifyDeviceToken(getDeviceToken(request), id)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
+
+    // Schedules are tied to a push subscription; without one there is nowhere to send reminders
+    if (!getSubscription(id)) {
+      return NextResponse.json(
+        { error: 'No subscription found for this user' },
+        { status: 404 }
+      )
+    }
+
+    // Only keep what the reminders need; notes stay on the device
+    const synced: Medication[] = (medications as Medication[]).map((med) => ({
+      id: med.id,
+      name: med.name,
+      dosage: med.dosage,
+      times: med.times,
+      notes: '',
+      withFood: med.withFood,
+      schedule: med.schedule,
+    }))
+
+    saveReminderSchedule(id, {
+      medications: synced,
+      timeZone,
+      privateReminders: privateReminders === true,
+      updatedAt: new Date().toISOString(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reminder schedule saved'
+    })
+  } catch (error) {
+    console.error('Error saving reminder schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to save reminder schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+export function DELETE(request: NextRequest) {
+  return rateLimited(request, removeSchedule)
+}
+
+async function removeSchedule(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json()
+    const { endpoint } = body
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return NextResponse.json(
+        { error: 'Endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    const id = generateSecureIdFromEndpoint(endpoint)
+    if (!verifyDeviceToken(getDeviceToken(request), id)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
+
+    removeReminderSchedule(id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reminder schedule removed'
+    })
+  } catch (error) {
+    console.error('Error removing reminder schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove reminder schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSubscription, sendPushNotification, isConfigured } from '@/app/lib/push-notifications'
+import { generateSecureIdFromEndpoint, getSubscription, sendPushNotification, isConfigured } from '@/app/lib/push-notifications'
 import { validateNotificationPayload, sanitizeString } from '@/app/lib/validation'
-import crypto from 'crypto'
+import { getDeviceToken, verifyDeviceToken } from '@/app/lib/device-token'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
 
 export async function POST(request: NextRequest) {
+  const clientId = getClientIdentifier(request)
+  if (!clientId) {
+    return unidentifiedClientResponse()
+  }
+  const clientLimit = checkRateLimit('push-send', clientId)
+  if (!clientLimit.success) {
+    return rateLimitExceededResponse(clientLimit)
+  }
+  return withRateLimitHeaders(await sendNotification(request), clientLimit)
+}
+
+async function sendNotification(request: NextRequest): Promise<NextResponse> {
   try {
     if (!isConfigured()) {
       return NextResponse.json(
@@ -33,6 +52,20 @@ export async function POST(request: NextRequest) {
 
     // Get subscription by user ID or endpoint hash
     const id = userId || generateSecureIdFromEndpoint(endpoint)
+
+    // Only the device that subscribed may send to its subscription
+    if (!verifyDeviceToken(getDeviceToken(request), id)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
+
+    const deviceLimit = checkRateLimit('push-send-device', id)
+    if (!deviceLimit.success) {
+      return rateLimitExceededResponse(deviceLimit)
+    }
+
     const subscription = getSubscription(id)
 
     if (!subscription) {
@@ -46,7 +79,7 @@ export async function POST(request: NextRequest) {
     const sanitizedTitle = sanitizeString(title)
     const sanitizedBody = messageBody ? sanitizeString(messageBody) : ''
 
-    const success = await sendPushNotification(subscription, {
+    const result = await sendPushNotification(subscription, {
       title: sanitizedTitle,
       body: sanitizedBody,
       icon: '/icon-192.png',
@@ -55,16 +88,41 @@ export async function POST(request: NextRequest) {
       data: data || {}
     })
 
-    if (success) {
-      return NextResponse.json({
-        success: true,
-        message: 'Notification sent'
-      })
-    } else {
-      return NextResponse.json(
-        { error: 'Failed to send notification' },
-        { status: 500 }
-      )
+    switch (result.status) {
+      case 'delivered':
+        return NextResponse.json({
+          success: true,
+          status: result.status,
+          message: 'Notification sent'
+        })
+      case 'expired':
+        return NextResponse.json(
+          { error: 'Push subscription has expired. Please re-enable notifications.', status: result.status },
+          { status: 410 }
+        )
+      case 'rate-limited':
+        return NextResponse.json(
+          { error: 'Push service is rate limiting requests. Please try again later.', status: result.status },
+          {
+            status: 429,
+            headers: result.retryAfterSeconds ? { 'Retry-After': String(result.retryAfterSeconds) } : undefined
+          }
+        )
+      case 'payload-too-large':
+        return NextResponse.json(
+          { error: 'Notification is too large to send', status: result.status },
+          { status: 413 }
+        )
+      case 'not-configured':
+        return NextResponse.json(
+          { error: 'Push notifications not configured on server', status: result.status },
+          { status: 503 }
+        )
+      default:
+        return NextResponse.json(
+          { error: 'Failed to send notification', status: result.status },
+          { status: 502 }
+        )
     }
   } catch (error) {
     console.error('Error sending notification:', error)
@@ -74,11 +132,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-/**
- * Generate a secure hash from the endpoint URL using SHA-256
- */
-function generateSecureIdFromEndpoint(endpoint: string): string {
-  const hash = crypto.createHash('sha256').update(endpoint).digest('hex')
-  return `user_${hash.substring(0, 16)}`
-}
@@ -1,9 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { saveSubscription, removeSubscription, getVapidPublicKey, isConfigured } from '@/app/lib/push-notifications'
+import {
+  saveSubscription,
+  replaceSubscription,
+  removeSubscription,
+  getSubscriptionRecord,
+  getVapidPublicKey,
+  isConfigured,
+  generateSecureIdFromEndpoint,
+} from '@/app/lib/push-notifications'
+import { hasReminderSchedule, removeReminderSchedule } from '@/app/lib/reminder-store'
+import { getDeviceToken, issueDeviceToken, verifyDeviceToken } from '@/app/lib/device-token'
 import { validatePushSubscription } from '@/app/lib/validation'
-import crypto from 'crypto'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  unidentifiedClientResponse,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
 
-export async function POST(request: NextRequest) {
+// Subscribing, replacing and unsubscribing share one limit per client
+async function rateLimited(
+  request: NextRequest,
+  handler: (request: NextRequest) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const clientId = getClientIdentifier(request)
+  if (!clientId) {
+    return unidentifiedClientResponse()
+  }
+  const rateLimitResult = checkRateLimit('push-subscribe', clientId)
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult)
+  }
+  return withRateLimitHeaders(await handler(request), rateLimitResult)
+}
+
+export function POST(request: NextRequest) {
+  return rateLimited(request, subscribe)
+}
+
+async function subscribe(request: NextRequest): Promise<NextResponse> {
   try {
     if (!isConfigured()) {
       return NextResponse.json(
@@ -13,7 +49,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { subscription, userId } = body
+    const { subscription } = body
 
     if (!subscription) {
       return NextResponse.json(
@@ -31,14 +67,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Use a user ID or generate one from subscription endpoint using secure hash
-    const id = userId || generateSecureIdFromEndpoint(subscription.endpoint)
+    // Always derive the ID from the endpoint so callers cannot claim someone else's ID
+    const id = generateSecureIdFromEndpoint(subscription.endpoint)
 
-    saveSubscription(id, subscription)
+    // Saving over a known subscription needs its device token, so nobody who learns an
+    // endpoint can swap its keys or take a token for it
+    if (getSubscriptionRecord(id) && !verifyDeviceToken(getDeviceToken(request), id)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
 
+    saveSubscription(id, subscription, request.headers.get('user-agent'))
+
+    // The device presents this token on every later push request for this subscription
     return NextResponse.json({
       success: true,
-      message: 'Subscription saved successfully'
+      message: 'Subscription saved successfully',
+      deviceToken: issueDeviceToken(id)
     })
   } catch (error) {
     console.error('Error saving subscription:', error)
@@ -49,7 +96,81 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE(request: NextRequest) {
+/**
+ * Replace a subscription after the browser rotated it (called from the service worker's
+ * pushsubscriptionchange handler). The old record and its reminder schedule move to the new id.
+ */
+export function PUT(request: NextRequest) {
+  return rateLimited(request, replace)
+}
+
+async function replace(request: NextRequest): Promise<NextResponse> {
+  try {
+    if (!isConfigured()) {
+      return NextResponse.json(
+        { error: 'Push notifications not configured on server' },
+        { status: 503 }
+      )
+    }
+
+    const body = await request.json()
+    const { oldEndpoint, subscription } = body
+
+    if (typeof oldEndpoint !== 'string' || !oldEndpoint || !subscription) {
+      return NextResponse.json(
+        { error: 'Old endpoint and new subscription are required' },
+        { status: 400 }
+      )
+    }
+
+    const validation = validatePushSubscription(subscription)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid subscription format', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    // Only the owner of the old subscription may move it
+    const oldId = generateSecureIdFromEndpoint(oldEndpoint)
+    if (!verifyDeviceToken(getDeviceToken(request), oldId)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
+
+    // Moving onto an id that is already taken would hand over that subscription and a token for it
+    const newId = generateSecureIdFromEndpoint(subscription.endpoint)
+    if (newId !== oldId && (getSubscriptionRecord(newId) || hasReminderSchedule(newId))) {
+      return NextResponse.json(
+        { error: 'Subscription is already registered' },
+        { status: 409 }
+      )
+    }
+
+    const replaced = replaceSubscription(oldId, newId, subscription, request.headers.get('user-agent'))
+
+    return NextResponse.json({
+      success: true,
+      replaced,
+      message: replaced ? 'Subscription replaced' : 'Subscription saved',
+      deviceToken: issueDeviceToken(newId)
+    })
+  } catch (error) {
+    console.error('Error replacing subscription:', error)
+    return NextResponse.json(
+      { error: 'Failed to replace subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+export function DELETE(request: NextRequest) {
+  return rateLimited(request, unsubscribe)
+}
+
+async function unsubscribe(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json()
     const { userId, endpoint } = body
@@ -62,7 +183,15 @@ export async function DELETE(request: NextRequest) {
     }
 
     const id = userId || generateSecureIdFromEndpoint(endpoint)
+    if (!verifyDeviceToken(getDeviceToken(request), id)) {
+      return NextResponse.json(
+        { error: 'Invalid device token' },
+        { status: 401 }
+      )
+    }
+
     removeSubscription(id)
+    removeReminderSchedule(id)
 
     return NextResponse.json({
       success: true,
@@ -90,11 +219,3 @@ export async function GET() {
     configured: true
   })
 }
-
-/**
- * Generate a secure hash from the endpoint URL using SHA-256
- */
-function generateSecureIdFromEndpoint(endpoint: string): string {
-  const hash = crypto.createHash('sha256').update(endpoint).digest('hex')
-  return `user_${hash.substring(0, 16)}`
-}
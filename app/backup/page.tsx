@@ -0,0 +1,324 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  MIN_PASSPHRASE_LENGTH,
+  SECTION_LABELS,
+  collectBackupData,
+  decryptBackup,
+  encryptBackup,
+  mergeBackupData,
+  previewImport,
+  readBackupData,
+  writeBackupData,
+  type BackupData,
+  type ImportMode,
+  type SectionChange,
+} from '@/app/lib/backup'
+import { updateLockedReminderTimes } from '@/app/lib/app-lock'
+import { getLocalDateKey } from '@/app/lib/intake-log'
+import { discardQuarantined, loadQuarantine, type QuarantinedRecord } from '@/app/lib/stored-data'
+
+interface PendingImport {
+  createdAt: string
+  data: BackupData
+  current: BackupData
+  skipped: string[]
+}
+
+export default function BackupPage() {
+  const [exportPassphrase, setExportPassphrase] = useState('')
+  const [exportConfirm, setExportConfirm] = useState('')
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [exported, setExported] = useState(false)
+
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importPassphrase, setImportPassphrase] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [imported, setImported] = useState(false)
+
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([])
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadQuarantine().then(setQuarantined)
+  }, [])
+
+  const downloadBackup = async () => {
+    setExportError(null)
+    setExported(false)
+
+    if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setExportError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+    if (exportPassphrase !== exportConfirm) {
+      setExportError('Passphrases do not match')
+      return
+    }
+
+    setExporting(true)
+    try {
+      const file = await encryptBackup(await collectBackupData(), exportPassphrase)
+      const url = URL.createObjectURL(new Blob([JSON.stringify(file)], { type: 'application/json' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `transplantfood-backup-${getLocalDateKey()}.json`
+      link.click()
+      // Safari starts the download asynchronously, so keep the URL alive briefly
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      setExportPassphrase('')
+      setExportConfirm('')
+      setExported(true)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to create backup')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const openBackup = async () => {
+    if (!importFile) return
+    setImportError(null)
+    setImported(false)
+    setPending(null)
+
+    setImporting(true)
+    try {
+      const { createdAt, data } = await decryptBackup(await importFile.text(), importPassphrase)
+      const { data: backup, skipped } = readBackupData(data)
+      setPending({ createdAt, data: backup, current: await collectBackupData(), skipped })
+      setImportPassphrase('')
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to open backup')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const applyImport = async () => {
+    if (!pending) return
+
+    if (mode === 'replace' && !window.confirm('Replace all data on this device with the backup? This cannot be undone.')) {
+      return
+    }
+
+    setImporting(true)
+    try {
+      const result = mergeBackupData(pending.current, pending.data, mode)
+      await writeBackupData(result)
+      updateLockedReminderTimes(result.medications)
+      setPending(null)
+      setImportFile(null)
+      setImported(true)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import backup')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const copyQuarantined = async (entry: QuarantinedRecord) => {
+    await navigator.clipboard.writeText(JSON.stringify(entry.record, null, 2))
+    setCopiedId(entry.id)
+  }
+
+  const discard = async (entry: QuarantinedRecord) => {
+    if (!window.confirm('Delete this record permanently?')) return
+    setQuarantined(await discardQuarantined(entry.id))
+  }
+
+  const changes: SectionChange[] = pending ? previewImport(pending.current, pending.data, mode) : []
+
+  const describeChange = (change: SectionChange) => {
+    const parts = [
+      change.added > 0 && `${change.added} added`,
+      change.updated > 0 && `${change.updated} updated`,
+      change.removed > 0 && `${change.removed} removed`,
+    ].filter(Boolean)
+    return parts.length > 0 ? parts.join(', ') : 'No change'
+  }
+
+  return (
+    <main className="container">
+      <header className="header">
+        <Link href="/" className="back-link">
+          ← Back to Analyzer
+        </Link>
+        <h1>Backup & Restore</h1>
+        <p>Move your medications, diary and profile to a new device</p>
+      </header>
+
+      <div className="card backup-section">
+        <h2 className="section-title">Create Backup</h2>
+        <p className="form-hint">
+          The backup file is encrypted with your passphrase. Keep the passphrase somewhere safe;
+          without it the backup cannot be opened.
+        </p>
+
+        <div className="form-group">
+          <label>Passphrase</label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Confirm Passphrase</label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={exportConfirm}
+            onChange={(e) => setExportConfirm(e.target.value)}
+          />
+        </div>
+
+        {exportError && <div className="error-message">{exportError}</div>}
+        {exported && <p className="form-hint backup-success">Backup downloaded</p>}
+
+        <button className="save-btn profile-save-btn" onClick={downloadBackup} disabled={exporting}>
+          {exporting ? 'Encrypting...' : 'Download Backup'}
+        </button>
+      </div>
+
+      <div className="card backup-section">
+        <h2 className="section-title">Restore Backup</h2>
+
+        <div className="form-group">
+          <label>Backup File</label>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              setImportFile(e.target.files?.[0] ?? null)
+              setPending(null)
+              setImported(false)
+            }}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Passphrase</label>
+          <input
+            type="password"
+            autoComplete="off"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+          />
+        </div>
+
+        {!pending && (
+          <button
+            className="save-btn profile-save-btn"
+            onClick={openBackup}
+            disabled={!importFile || !importPassphrase || importing}
+          >
+            {importing ? 'Decrypting...' : 'Open Backup'}
+          </button>
+        )}
+
+        {pending && (
+          <div className="backup-preview">
+            <p className="form-hint">
+              Backup from {new Date(pending.createdAt).toLocaleString()}
+            </p>
+
+            <div className="form-group">
+              <label>Import Mode</label>
+              <div className="checkbox-group">
+                <label>
+                  <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  Merge with the data on this device
+                </label>
+                <label>
+                  <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  Replace the data on this device
+                </label>
+              </div>
+            </div>
+
+            <table className="backup-preview-table">
+              <thead>
+                <tr>
+                  <th>Data</th>
+                  <th>In backup</th>
+                  <th>Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.section} className={change.removed > 0 ? 'backup-removes' : undefined}>
+                    <td>{SECTION_LABELS[change.section]}</td>
+                    <td>{change.incoming}</td>
+                    <td>{describeChange(change)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {pending.skipped.length > 0 && (
+              <div className="error-message">
+                <p>{pending.skipped.length} invalid record(s) in the backup will be skipped:</p>
+                <ul>
+                  {pending.skipped.slice(0, 10).map((reason, i) => (
+                    <li key={i}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="modal-actions">
+              <button className="cancel-btn" onClick={() => setPending(null)} disabled={importing}>
+                Cancel
+              </button>
+              <button className="save-btn" onClick={applyImport} disabled={importing}>
+                {importing ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {importError && <div className="error-message">{importError}</div>}
+        {imported && <p className="form-hint backup-success">Backup restored</p>}
+      </div>
+
+      {quarantined.length > 0 && (
+        <div className="card backup-section">
+          <h2 className="section-title">Records Set Aside</h2>
+          <p className="form-hint">
+            These saved records could not be read by this version of the app. They are kept here so nothing is
+            lost; copy one to re-enter it by hand or share it with support.
+          </p>
+
+          {quarantined.map((entry) => (
+            <div key={entry.id} className="quarantine-item">
+              <div className="quarantine-item-header">
+                <strong>{entry.storageKey}</strong>
+                <span>{new Date(entry.quarantinedAt).toLocaleDateString()}</span>
+              </div>
+              <p className="form-hint">{entry.errors.join(', ')}</p>
+              <div className="modal-actions">
+                <button className="cancel-btn" onClick={() => discard(entry)}>
+                  Delete
+                </button>
+                <button className="save-btn" onClick={() => copyQuarantined(entry)}>
+                  {copiedId === entry.id ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,94 @@
+import { NUTRIENT_KEYS, NUTRIENT_LABELS, VERDICT_HEADINGS, type AnalysisResult } from '@/app/lib/analysis'
+import SafeAnalysisContent, { formatInlineText } from '@/app/components/SafeAnalysisContent'
+
+/**
+ * Verdict, interaction warnings, nutrient table and written analysis for one food
+ */
+export default function AnalysisResultView({ result }: { result: AnalysisResult }) {
+  return (
+    <>
+      <div className="results-header">
+        <span className={`verdict-icon ${result.verdict}`}>
+          {result.verdict === 'safe' && (
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"/>
+              <polyline points="22 4 12 14.01 9 11.01"/>
+            </svg>
+          )}
+          {result.verdict === 'caution' && (
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3"/>
+              <line x1="12" y1="9" x2="12" y2="13"/>
+              <line x1="12" y1="17" x2="12.01" y2="17"/>
+            </svg>
+          )}
+          {result.verdict === 'avoid' && (
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="12" cy="12" r="10"/>
+              <line x1="15" y1="9" x2="9" y2="15"/>
+              <line x1="9" y1="9" x2="15" y2="15"/>
+            </svg>
+          )}
+        </span>
+        <h2>Analysis Results</h2>
+      </div>
+
+      <div className={`verdict ${result.verdict}`}>
+        <h3>{VERDICT_HEADINGS[result.verdict]}</h3>
+        <p>{result.summary}</p>
+      </div>
+
+      {result.interactionMatches.length > 0 ? (
+        <div className="interaction-alert">
+          <strong>Verdict set to Avoid:</strong> the ingredients include foods that interfere with immunosuppressant medications.
+          <ul>
+            {result.interactionMatches.map((match) => (
+              <li key={match.ruleId}>
+                {match.name} <span className="interaction-term">(found &quot;{match.matchedText}&quot;)</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : result.interactionIngredients.length > 0 && (
+        <div className="interaction-alert">
+          <strong>Drug interaction risk:</strong> contains {result.interactionIngredients.join(', ')}
+        </div>
+      )}
+
+      <div className="nutrient-panel">
+        <h3>{result.productName || 'Nutrients'}</h3>
+        {result.servingSize && <p className="serving-size">Per serving: {result.servingSize}</p>}
+        <table className="nutrient-table">
+          <tbody>
+            {NUTRIENT_KEYS.map((key) => {
+              const nutrient = result.nutrients[key]
+              return (
+                <tr key={key}>
+                  <th scope="row">{NUTRIENT_LABELS[key]}</th>
+                  <td>{nutrient.amount !== null ? `${nutrient.amount}${nutrient.unit}` : 'Not listed'}</td>
+                  <td className="nutrient-dv">{nutrient.percentDailyValue !== null ? `${nutrient.percentDailyValue}% DV` : ''}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="analysis-content">
+        <SafeAnalysisContent text={result.analysis} />
+        {result.transplantPhase !== 'late' && (
+          <>
+            <h3>Early Post-Transplant (0-3 months)</h3>
+            <p>{formatInlineText(result.guidance.early)}</p>
+          </>
+        )}
+        {result.transplantPhase !== 'early' && (
+          <>
+            <h3>Late Post-Transplant (3+ months)</h3>
+            <p>{formatInlineText(result.guidance.late)}</p>
+          </>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,239 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  isStorageLockEnabled,
+  isStorageUnlocked,
+  lockStorage,
+  unlockStorage,
+} from '@/app/lib/secure-storage'
+import {
+  MAX_FREE_ATTEMPTS,
+  clearBiometricPin,
+  getBiometricPin,
+  getLockSettings,
+  getLockedReminderTimes,
+  getLockoutRemainingMs,
+  getLockoutState,
+  isBiometricAvailable,
+  recordFailedAttempt,
+  resetFailedAttempts,
+  updateLockedReminderTimes,
+} from '@/app/lib/app-lock'
+import { loadStoredData } from '@/app/lib/stored-data'
+import type { Medication } from '@/app/lib/validation'
+
+type LockStatus = 'checking' | 'locked' | 'unlocked'
+
+// How often the idle timer and locked reminders are checked
+const TICK_MS = 15 * 1000
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const
+
+/**
+ * Gate in front of every page when the app lock is on.
+ * While locked the pages are unmounted, so no health data stays on screen or in the DOM.
+ */
+export default function AppLock({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<LockStatus>('checking')
+  const [pin, setPin] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [lockoutMs, setLockoutMs] = useState(0)
+  const [biometricReady, setBiometricReady] = useState(false)
+  const lastActivity = useRef(Date.now())
+
+  const lock = useCallback(() => {
+    lockStorage()
+    setPin('')
+    setError(null)
+    setStatus('locked')
+  }, [])
+
+  const finishUnlock = useCallback(() => {
+    resetFailedAttempts()
+    lastActivity.current = Date.now()
+    setPin('')
+    setError(null)
+    setStatus('unlocked')
+
+    // Keep the generic reminders used while locked up to date
+    loadStoredData<Medication[]>('medications').then(updateLockedReminderTimes)
+  }, [])
+
+  const unlockWithBiometric = useCallback(async () => {
+    const storedPin = await getBiometricPin()
+    if (!storedPin) return
+
+    if (await unlockStorage(storedPin)) {
+      finishUnlock()
+    } else {
+      // The PIN was changed without updating the keychain copy
+      await clearBiometricPin()
+      setBiometricReady(false)
+      setError('Biometric unlock is out of date. Enter your PIN.')
+    }
+  }, [finishUnlock])
+
+  useEffect(() => {
+    const checkLock = async () => {
+      let enabled = false
+      try {
+        enabled = await isStorageLockEnabled()
+      } catch {
+        // No WebCrypto/IndexedDB: there is no encrypted data to protect
+      }
+
+      if (!enabled || isStorageUnlocked()) {
+        setStatus('unlocked')
+        return
+      }
+
+      setStatus('locked')
+      if (getLockSettings().biometricEnabled && await isBiometricAvailable()) {
+        setBiometricReady(true)
+        unlockWithBiometric()
+      }
+    }
+    checkLock()
+  }, [unlockWithBiometric])
+
+  useEffect(() => {
+    // Auto-lock after the configured idle time
+    if (status !== 'unlocked') return
+
+    const markActive = () => {
+      lastActivity.current = Date.now()
+    }
+    const checkIdle = async () => {
+      const { enabled, idleMinutes } = getLockSettings()
+      // Only lock if a PIN really protects the key, otherwise there would be no way back in
+      if (enabled && Date.now() - lastActivity.current >= idleMinutes * 60 * 1000 && await isStorageLockEnabled()) {
+        lock()
+      }
+    }
+    // Timers are throttled in the background, so check as soon as the app is shown again
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') checkIdle()
+    }
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, markActive, { passive: true }))
+    document.addEventListener('visibilitychange', handleVisibility)
+    const interval = setInterval(checkIdle, TICK_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, markActive))
+      document.removeEventListener('visibilitychange', handleVisibility)
+      clearInterval(interval)
+    }
+  }, [status, lock])
+
+  useEffect(() => {
+    // Reminders keep firing while locked, without saying which medication is due
+    if (status !== 'locked') return
+
+    const notified = new Set<number>()
+    const checkReminders = () => {
+      if (!('Notification' in window) || Notification.permission !== 'granted') return
+
+      const now = Date.now()
+      for (const time of getLockedReminderTimes()) {
+        if (time <= now && now - time < 60 * 1000 && !notified.has(time)) {
+          notified.add(time)
+          new Notification('Medication reminder', {
+            body: 'A dose is due. Unlock TransplantFood to see the details.',
+            icon: '/icon-192.png',
+            tag: `medication-reminder-${time}`,
+          })
+        }
+      }
+    }
+
+    const interval = setInterval(checkReminders, TICK_MS)
+    return () => clearInterval(interval)
+  }, [status])
+
+  useEffect(() => {
+    // Count down an active lockout
+    if (status !== 'locked') return
+
+    const update = () => setLockoutMs(getLockoutRemainingMs(getLockoutState()))
+    update()
+    const interval = setInterval(update, 1000)
+    return () => clearInterval(interval)
+  }, [status])
+
+  const submitPin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pin || unlocking || getLockoutRemainingMs(getLockoutState()) > 0) return
+
+    setUnlocking(true)
+    const unlocked = await unlockStorage(pin)
+    setUnlocking(false)
+
+    if (unlocked) {
+      finishUnlock()
+      return
+    }
+
+    const state = recordFailedAttempt()
+    const remaining = getLockoutRemainingMs(state)
+    setPin('')
+    setLockoutMs(remaining)
+    setError(remaining > 0
+      ? 'Too many incorrect attempts.'
+      : `Incorrect PIN. ${MAX_FREE_ATTEMPTS - state.failedAttempts} attempt(s) left before a lockout.`)
+  }
+
+  if (status === 'checking') {
+    return null
+  }
+
+  if (status === 'unlocked') {
+    return <>{children}</>
+  }
+
+  const lockoutSeconds = Math.ceil(lockoutMs / 1000)
+
+  return (
+    <main className="container app-lock">
+      <div className="card">
+        <header className="header">
+          <h1>TransplantFood is Locked</h1>
+          <p>Enter your PIN to see your health data</p>
+        </header>
+
+        <form onSubmit={submitPin}>
+          <div className="form-group">
+            <label htmlFor="app-lock-pin">PIN</label>
+            <input
+              id="app-lock-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              maxLength={12}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              disabled={lockoutMs > 0}
+            />
+          </div>
+
+          {error && <div className="error-message">{error}</div>}
+
+          <button type="submit" className="save-btn app-lock-btn" disabled={!pin || unlocking || lockoutMs > 0}>
+            {lockoutMs > 0
+              ? `Try again in ${Math.floor(lockoutSeconds / 60)}:${String(lockoutSeconds % 60).padStart(2, '0')}`
+              : unlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        {biometricReady && (
+          <button type="button" className="cancel-btn app-lock-btn" onClick={unlockWithBiometric}>
+            Unlock with Face ID / Fingerprint
+          </button>
+        )}
+      </div>
+    </main>
+  )
+}
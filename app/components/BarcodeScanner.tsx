@@ -0,0 +1,142 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { detectFromVideo, getScannerMode, scanNative, type ScannerMode } from '@/app/lib/barcode-scanner'
+import { normalizeBarcode } from '@/app/lib/product-cache'
+
+interface BarcodeScannerProps {
+  onDetected: (barcode: string) => void // Normalized barcode
+  onClose: () => void
+}
+
+/**
+ * Barcode capture modal: the native scanner in the app, a live camera view in browsers
+ * that can read barcodes, and typing the number in everywhere else
+ */
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const [mode, setMode] = useState<ScannerMode | null>(null)
+  const [manualCode, setManualCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  const accept = (raw: string): boolean => {
+    const barcode = normalizeBarcode(raw)
+    if (!barcode) {
+      setError(`"${raw}" is not a valid UPC or EAN barcode`)
+      return false
+    }
+    onDetected(barcode)
+    return true
+  }
+
+  const startNativeScan = async () => {
+    setError(null)
+    try {
+      const code = await scanNative()
+      if (code) {
+        accept(code)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the scanner')
+    }
+  }
+
+  useEffect(() => {
+    getScannerMode().then((detected) => {
+      setMode(detected)
+      if (detected === 'native') {
+        startNativeScan()
+      }
+    })
+  }, [])
+
+  useEffect(() => {
+    if (mode !== 'browser') return
+
+    const controller = new AbortController()
+    let stream: MediaStream | null = null
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+        const video = videoRef.current
+        if (!video || controller.signal.aborted) return
+        video.srcObject = stream
+        await video.play()
+
+        // Keep watching after an unreadable code; the user may still be lining it up
+        while (!controller.signal.aborted) {
+          const code = await detectFromVideo(video, controller.signal)
+          if (code && accept(code)) return
+          await new Promise((resolve) => setTimeout(resolve, 1000))
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Camera barcode scan failed:', err)
+        setError('Could not use the camera. You can type the barcode number instead.')
+        setMode('manual')
+      }
+    }
+    start()
+
+    return () => {
+      controller.abort()
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [mode])
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal barcode-modal" onClick={(e) => e.stopPropagation()}>
+        <h2>Scan Barcode</h2>
+
+        {mode === null && <p className="form-hint">Starting camera...</p>}
+
+        {mode === 'browser' && (
+          <div className="barcode-viewfinder">
+            <video ref={videoRef} muted playsInline />
+            <span className="barcode-guide" />
+          </div>
+        )}
+
+        {mode === 'native' && (
+          <button className="save-btn profile-save-btn" onClick={startNativeScan}>
+            Open Scanner
+          </button>
+        )}
+
+        {mode === 'manual' && !error && (
+          <p className="form-hint">Barcode scanning is not available on this device. Type the number printed under the barcode.</p>
+        )}
+
+        <div className="form-group">
+          <label>Barcode Number</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={18}
+            placeholder="e.g. 036000291452"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value.replace(/[^\d\s-]/g, ''))}
+          />
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="save-btn"
+            onClick={() => { setError(null); accept(manualCode) }}
+            disabled={!manualCode.trim()}
+          >
+            Look Up
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
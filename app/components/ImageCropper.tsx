@@ -0,0 +1,99 @@
+'use client'
+
+import { useState, useRef, PointerEvent } from 'react'
+import type { CropRect } from '@/app/lib/image-preprocess'
+
+interface ImageCropperProps {
+  image: string // Upright, uncropped photo
+  initialCrop: CropRect | null
+  onApply: (crop: CropRect | null) => void // null keeps the whole photo
+  onClose: () => void
+}
+
+// Smaller selections are treated as a stray tap
+const MIN_CROP_SIZE = 0.05
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+/**
+ * Crop modal: drag across the photo to select the label
+ */
+export default function ImageCropper({ image, initialCrop, onApply, onClose }: ImageCropperProps) {
+  const [crop, setCrop] = useState<CropRect | null>(initialCrop)
+  const dragStart = useRef<{ x: number; y: number } | null>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+
+  const toPoint = (e: PointerEvent<HTMLDivElement>) => {
+    const bounds = frameRef.current!.getBoundingClientRect()
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width),
+      y: clamp((e.clientY - bounds.top) / bounds.height),
+    }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStart.current = toPoint(e)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current
+    if (!start) return
+    const point = toPoint(e)
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    })
+  }
+
+  const handlePointerUp = () => {
+    dragStart.current = null
+    if (crop && (crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE)) {
+      setCrop(null)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal cropper-modal" onClick={(e) => e.stopPropagation()}>
+        <h2>Crop to the Label</h2>
+        <p className="form-hint">Drag across the photo to keep only the nutrition facts or ingredients.</p>
+
+        <div
+          ref={frameRef}
+          className="cropper-frame"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <img src={image} alt="Photo to crop" draggable={false} />
+          {crop && (
+            <span
+              className="cropper-selection"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={() => setCrop(null)} disabled={!crop}>
+            Reset
+          </button>
+          <button className="save-btn" onClick={() => onApply(crop)}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
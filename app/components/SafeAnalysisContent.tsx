@@ -0,0 +1,69 @@
+import React from 'react'
+
+// Safe text rendering component - no dangerouslySetInnerHTML to prevent XSS
+export default function SafeAnalysisContent({ text }: { text: string }) {
+  const lines = text.split('\n')
+  const elements: React.ReactNode[] = []
+  let currentList: string[] = []
+  let key = 0
+
+  const flushList = () => {
+    if (currentList.length > 0) {
+      elements.push(
+        <ul key={key++}>
+          {currentList.map((item, i) => (
+            <li key={i}>{formatInlineText(item)}</li>
+          ))}
+        </ul>
+      )
+      currentList = []
+    }
+  }
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (!trimmed) {
+      flushList()
+      continue
+    }
+
+    if (trimmed.startsWith('### ')) {
+      flushList()
+      elements.push(<h3 key={key++}>{formatInlineText(trimmed.slice(4))}</h3>)
+    } else if (trimmed.startsWith('## ')) {
+      flushList()
+      elements.push(<h3 key={key++}>{formatInlineText(trimmed.slice(3))}</h3>)
+    } else if (trimmed.startsWith('- ')) {
+      currentList.push(trimmed.slice(2))
+    } else {
+      flushList()
+      elements.push(<p key={key++}>{formatInlineText(trimmed)}</p>)
+    }
+  }
+  flushList()
+
+  return <>{elements}</>
+}
+
+// Safe inline text formatting - handles **bold** without HTML injection
+export function formatInlineText(text: string): React.ReactNode {
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  let key = 0
+  const boldRegex = /\*\*(.*?)\*\*/g
+  let match
+
+  while ((match = boldRegex.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push(text.slice(lastIndex, match.index))
+    }
+    parts.push(<strong key={key++}>{match[1]}</strong>)
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex))
+  }
+
+  return parts.length > 0 ? parts : text
+}
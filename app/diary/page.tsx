@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { loadStoredData } from '@/app/lib/stored-data'
+import { NUTRIENT_LABELS, NUTRIENT_UNITS } from '@/app/lib/analysis'
+import { PROFILE_STORAGE_KEY } from '@/app/lib/patient-profile'
+import {
+  TRACKED_NUTRIENTS,
+  calculateTotals,
+  getDailyLimits,
+  getLocalDateKey,
+  loadIntakeEntries,
+  saveIntakeEntries,
+} from '@/app/lib/intake-log'
+import type { IntakeEntry, PatientProfile } from '@/app/lib/validation'
+
+export default function DiaryPage() {
+  const [date, setDate] = useState(() => new Date())
+  const [entries, setEntries] = useState<IntakeEntry[]>([])
+  const [profile, setProfile] = useState<PatientProfile | null>(null)
+
+  const dateKey = getLocalDateKey(date)
+  const isToday = dateKey === getLocalDateKey()
+
+  useEffect(() => {
+    loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY).then(setProfile)
+  }, [])
+
+  useEffect(() => {
+    // Ignore a slow load for a day the user has already navigated away from
+    let current = true
+    loadIntakeEntries(dateKey).then((loaded) => {
+      if (current) setEntries(loaded)
+    })
+    return () => {
+      current = false
+    }
+  }, [dateKey])
+
+  const changeDay = (offset: number) => {
+    const next = new Date(date)
+    next.setDate(next.getDate() + offset)
+    setDate(next)
+  }
+
+  const removeEntry = async (id: string) => {
+    if (confirm('Remove this food from your diary?')) {
+      const updated = entries.filter((e) => e.id !== id)
+      setEntries(updated)
+      await saveIntakeEntries(dateKey, updated)
+    }
+  }
+
+  const totals = calculateTotals(entries)
+  const limits = getDailyLimits(profile)
+
+  return (
+    <main className="container">
+      <div className="disclaimer-banner">
+        <strong>Disclaimer:</strong> Totals only include foods you log and the values read from their labels. Follow the limits set by your transplant care team. <Link href="/disclaimer">Read full disclaimer</Link>
+      </div>
+
+      <header className="header">
+        <Link href="/" className="back-link">
+          ← Back to Analyzer
+        </Link>
+        <h1>Daily Food Diary</h1>
+        <p>Running totals against your daily limits</p>
+      </header>
+
+      <div className="card">
+        <div className="date-nav">
+          <button className="date-nav-btn" onClick={() => changeDay(-1)} aria-label="Previous day">
+            ‹
+          </button>
+          <span>
+            {isToday ? 'Today' : date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+          </span>
+          <button className="date-nav-btn" onClick={() => changeDay(1)} disabled={isToday} aria-label="Next day">
+            ›
+          </button>
+        </div>
+
+        <div className="intake-totals">
+          {TRACKED_NUTRIENTS.map((key) => {
+            const amount = totals.amounts[key]
+            const limit = limits[key]
+            const percent = Math.min(100, Math.round((amount / limit) * 100))
+            const level = amount > limit ? 'over' : percent >= 80 ? 'near' : 'ok'
+            return (
+              <div key={key} className="intake-total">
+                <div className="intake-total-header">
+                  <span>{NUTRIENT_LABELS[key]}</span>
+                  <span>
+                    {amount}{NUTRIENT_UNITS[key]} / {limit}{NUTRIENT_UNITS[key]}
+                    {totals.incomplete[key] && <span className="intake-incomplete" title="Some foods did not list this nutrient"> *</span>}
+                  </span>
+                </div>
+                <div className="intake-bar">
+                  <div className={`intake-bar-fill ${level}`} style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+            )
+          })}
+          {TRACKED_NUTRIENTS.some((key) => totals.incomplete[key]) && (
+            <p className="form-hint">* Some foods did not list this nutrient, so the real total may be higher.</p>
+          )}
+          {!profile?.sodiumTargetMg && (
+            <p className="form-hint">
+              Using general limits. Set your care team&apos;s targets in <Link href="/profile">My Profile</Link>.
+            </p>
+          )}
+        </div>
+
+        <div className="intake-entries">
+          <h2 className="section-title">Foods Logged</h2>
+          {entries.length === 0 ? (
+            <div className="empty-state">
+              <p>No foods logged {isToday ? 'today' : 'on this day'}</p>
+              {isToday && (
+                <Link href="/" className="add-first-btn">
+                  Analyze a Food
+                </Link>
+              )}
+            </div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="intake-entry">
+                <div>
+                  <h3>{entry.foodName}</h3>
+                  <p>
+                    {entry.servings} serving{entry.servings !== 1 ? 's' : ''} at{' '}
+                    {new Date(entry.loggedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                </div>
+                <button className="delete-btn" onClick={() => removeEntry(entry.id)}>
+                  Remove
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
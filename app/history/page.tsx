@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import AnalysisResultView from '@/app/components/AnalysisResultView'
+import {
+  clearAnalysisHistory,
+  deleteAnalysisHistoryEntry,
+  filterAnalysisHistory,
+  loadAnalysisHistory,
+  type VerdictFilter,
+} from '@/app/lib/analysis-history'
+import type { AnalysisHistoryEntry } from '@/app/lib/validation'
+
+const VERDICT_FILTERS: { value: VerdictFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'safe', label: 'Safe' },
+  { value: 'caution', label: 'Caution' },
+  { value: 'avoid', label: 'Avoid' },
+]
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<AnalysisHistoryEntry[]>([])
+  const [query, setQuery] = useState('')
+  const [verdict, setVerdict] = useState<VerdictFilter>('all')
+  const [selected, setSelected] = useState<AnalysisHistoryEntry | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    loadAnalysisHistory().then((history) => {
+      setEntries(history)
+      setLoaded(true)
+    })
+  }, [])
+
+  const removeEntry = async (id: string) => {
+    if (confirm('Remove this analysis from your history?')) {
+      setEntries(await deleteAnalysisHistoryEntry(id))
+      setSelected(null)
+    }
+  }
+
+  const clearAll = async () => {
+    if (confirm('Remove every analysis from your history? This cannot be undone.')) {
+      await clearAnalysisHistory()
+      setEntries([])
+    }
+  }
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+  const visible = filterAnalysisHistory(entries, query, verdict)
+
+  if (selected) {
+    return (
+      <main className="container">
+        <header className="header">
+          <button className="back-link history-back-btn" onClick={() => setSelected(null)}>
+            ← Back to History
+          </button>
+          <h1>{selected.result.productName || 'Saved Analysis'}</h1>
+          <p>
+            Analyzed {formatDate(selected.analyzedAt)}
+            {selected.barcode && <> · barcode {selected.barcode}</>}
+          </p>
+        </header>
+
+        <div className="card">
+          <div className="results-section history-detail">
+            <AnalysisResultView result={selected.result} />
+          </div>
+          <div className="modal-actions">
+            <button className="cancel-btn" onClick={() => removeEntry(selected.id)}>
+              Remove from History
+            </button>
+            <Link href="/" className="save-btn history-analyze-link">
+              Analyze Again
+            </Link>
+          </div>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container">
+      <header className="header">
+        <Link href="/" className="back-link">
+          ← Back to Analyzer
+        </Link>
+        <h1>Analysis History</h1>
+        <p>Foods you have checked, saved on this device</p>
+      </header>
+
+      <div className="card">
+        <div className="form-group">
+          <label>Search</label>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Product, ingredient or barcode"
+          />
+        </div>
+
+        <div className="tabs">
+          {VERDICT_FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              className={`tab-btn ${verdict === value ? 'active' : ''}`}
+              onClick={() => setVerdict(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {loaded && visible.length === 0 ? (
+          <div className="empty-state">
+            <p>{entries.length === 0 ? 'No foods analyzed yet' : 'No analyses match your search'}</p>
+            {entries.length === 0 && (
+              <Link href="/" className="add-first-btn">
+                Analyze a Food
+              </Link>
+            )}
+          </div>
+        ) : (
+          visible.map((entry) => (
+            <button key={entry.id} className="history-entry" onClick={() => setSelected(entry)}>
+              {entry.thumbnail ? (
+                <img src={entry.thumbnail} alt="" className="history-thumbnail" />
+              ) : (
+                <span className="history-thumbnail" />
+              )}
+              <div className="history-entry-text">
+                <h3>{entry.result.productName || 'Unnamed product'}</h3>
+                <p className="history-summary">{entry.result.summary}</p>
+                <p>{formatDate(entry.analyzedAt)}</p>
+              </div>
+              <span className={`history-verdict ${entry.result.verdict}`}>{entry.result.verdict}</span>
+            </button>
+          ))
+        )}
+
+        {entries.length > 0 && (
+          <button className="clear-btn history-clear-btn" onClick={clearAll}>
+            Clear History
+          </button>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,5 +1,6 @@
 import type { Metadata, Viewport } from 'next'
 import './globals.css'
+import AppLock from '@/app/components/AppLock'
 
 export const metadata: Metadata = {
   title: 'Post-Kidney Transplant Nutrition Guide',
@@ -36,7 +37,9 @@ export default function RootLayout({
         <meta name="apple-mobile-web-app-capable" content="yes" />
         <meta name="apple-mobile-web-app-status-bar-style" content="default" />
       </head>
-      <body>{children}</body>
+      <body>
+        <AppLock>{children}</AppLock>
+      </body>
     </html>
   )
 }
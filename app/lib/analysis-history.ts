@@ -0,0 +1,101 @@
+/**
+ * Analysis History
+ * Encrypted list of past food analyses, so patients can look up a product they already
+ * checked without uploading photos again
+ */
+
+import { loadStoredData, saveStoredData } from './stored-data'
+import type { AnalysisResult, Verdict } from './analysis'
+import type { AnalysisHistoryEntry } from './validation'
+
+export const ANALYSIS_HISTORY_KEY = 'analysisHistory'
+
+// Oldest analyses are dropped past this to keep storage small
+const MAX_HISTORY_ENTRIES = 100
+
+const THUMBNAIL_SIZE = 96 // Pixels on the longest side
+const THUMBNAIL_QUALITY = 0.6
+
+export type VerdictFilter = Verdict | 'all'
+
+export function loadAnalysisHistory(): Promise<AnalysisHistoryEntry[]> {
+  return loadStoredData<AnalysisHistoryEntry[]>(ANALYSIS_HISTORY_KEY)
+}
+
+/**
+ * Add a completed analysis to the top of the history
+ */
+export async function addAnalysisHistoryEntry(
+  result: AnalysisResult,
+  thumbnail: string | null,
+  barcode: string | null = null,
+  now: Date = new Date()
+): Promise<AnalysisHistoryEntry> {
+  const entry: AnalysisHistoryEntry = {
+    id: crypto.randomUUID(),
+    analyzedAt: now.toISOString(),
+    thumbnail,
+    barcode,
+    result,
+  }
+  const history = await loadAnalysisHistory()
+  await saveStoredData(ANALYSIS_HISTORY_KEY, [entry, ...history].slice(0, MAX_HISTORY_ENTRIES))
+  return entry
+}
+
+export async function deleteAnalysisHistoryEntry(id: string): Promise<AnalysisHistoryEntry[]> {
+  const remaining = (await loadAnalysisHistory()).filter((entry) => entry.id !== id)
+  await saveStoredData(ANALYSIS_HISTORY_KEY, remaining)
+  return remaining
+}
+
+export function clearAnalysisHistory(): Promise<void> {
+  return saveStoredData(ANALYSIS_HISTORY_KEY, [])
+}
+
+/**
+ * Entries matching a verdict and a free-text query over the product name, summary,
+ * ingredients and barcode
+ */
+export function filterAnalysisHistory(
+  entries: AnalysisHistoryEntry[],
+  query: string,
+  verdict: VerdictFilter
+): AnalysisHistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+
+  return entries.filter(({ result, barcode }) => {
+    if (verdict !== 'all' && result.verdict !== verdict) {
+      return false
+    }
+    const haystack = [result.productName, result.summary, result.ingredientsText, barcode ?? '']
+      .join(' ')
+      .toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+}
+
+/**
+ * Shrink a photo to a small JPEG for the history list.
+ * Resolves with null if the image cannot be drawn.
+ */
+export function createThumbnail(imageDataUrl: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const image = new Image()
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(image.width * scale))
+      canvas.height = Math.max(1, Math.round(image.height * scale))
+      const context = canvas.getContext('2d')
+      if (!context) {
+        resolve(null)
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY))
+    }
+    image.onerror = () => resolve(null)
+    image.src = imageDataUrl
+  })
+}
@@ -0,0 +1,321 @@
+/**
+ * Food Analysis Result
+ * Shared types and parsing for the structured output of /api/analyze
+ */
+
+import { validateAnalysisResult } from './validation'
+import { scanForInteractions, type InteractionMatch } from './interactions'
+import type { TransplantPhase } from './patient-profile'
+
+export type Verdict = 'safe' | 'caution' | 'avoid'
+
+export const NUTRIENT_KEYS = [
+  'sodium',
+  'potassium',
+  'phosphorus',
+  'protein',
+  'addedSugar',
+  'saturatedFat',
+] as const
+
+export type NutrientKey = typeof NUTRIENT_KEYS[number]
+
+export type NutrientUnit = 'mg' | 'g'
+
+// Unit every nutrient must be reported in, so values can be compared and summed
+export const NUTRIENT_UNITS: Record<NutrientKey, NutrientUnit> = {
+  sodium: 'mg',
+  potassium: 'mg',
+  phosphorus: 'mg',
+  protein: 'g',
+  addedSugar: 'g',
+  saturatedFat: 'g',
+}
+
+export const NUTRIENT_LABELS: Record<NutrientKey, string> = {
+  sodium: 'Sodium',
+  potassium: 'Potassium',
+  phosphorus: 'Phosphorus',
+  protein: 'Protein',
+  addedSugar: 'Added Sugars',
+  saturatedFat: 'Saturated Fat',
+}
+
+export const VERDICT_HEADINGS: Record<Verdict, string> = {
+  safe: 'Generally Safe for Post-Transplant Patients',
+  caution: 'Use Caution - Check with Your Care Team',
+  avoid: 'Best to Avoid After Transplant',
+}
+
+export interface NutrientValue {
+  amount: number | null // Per serving; null when not shown on the label
+  unit: NutrientUnit
+  percentDailyValue: number | null
+}
+
+export interface PostTransplantGuidance {
+  early: string // 0-3 months after transplant
+  late: string // 3+ months after transplant
+}
+
+export interface AnalysisResult {
+  productName: string
+  verdict: Verdict
+  summary: string
+  servingSize: string | null
+  ingredientsText: string // Ingredients list as transcribed from the label
+  nutrients: Record<NutrientKey, NutrientValue>
+  interactionIngredients: string[] // Interacting ingredients reported by the model
+  interactionMatches: InteractionMatch[] // Set server-side by the interaction rules, never by the model
+  guidance: PostTransplantGuidance
+  transplantPhase: TransplantPhase | null // From the patient profile; null shows guidance for both phases
+  analysis: string // Markdown: nutrients, ingredients, concerns and recommendation
+}
+
+/**
+ * Pull the JSON object out of a model response, tolerating markdown code fences
+ * and stray prose around it
+ */
+export function extractJsonObject(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const candidate = fenced ? fenced[1] : text
+
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    return null
+  }
+
+  return candidate.slice(start, end + 1)
+}
+
+/**
+ * Parse and validate the model's analysis response.
+ * Returns null when the response is not a well-formed analysis result.
+ */
+export function parseAnalysisResponse(text: string): AnalysisResult | null {
+  const json = extractJsonObject(text)
+  if (!json) {
+    return null
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return null
+  }
+
+  const validation = validateAnalysisResult(parsed)
+  if (!validation.valid) {
+    console.error('Analysis response failed validation:', validation.errors)
+    return null
+  }
+
+  const result = parsed as AnalysisResult
+  return {
+    productName: result.productName.trim(),
+    verdict: result.verdict.toLowerCase() as Verdict,
+    summary: result.summary.trim(),
+    servingSize: result.servingSize?.trim() || null,
+    ingredientsText: result.ingredientsText.trim(),
+    nutrients: result.nutrients,
+    interactionIngredients: result.interactionIngredients.map((i) => i.trim()).filter(Boolean),
+    interactionMatches: [],
+    guidance: {
+      early: result.guidance.early.trim(),
+      late: result.guidance.late.trim(),
+    },
+    transplantPhase: null,
+    analysis: result.analysis.trim(),
+  }
+}
+
+/**
+ * Events streamed by /api/analyze as newline-delimited JSON
+ */
+export type AnalysisStreamEvent =
+  | { type: 'verdict'; productName: string; verdict: Verdict; summary: string } // Sent once the ingredients passed the interaction check
+  | { type: 'analysis'; text: string } // The next piece of the markdown analysis
+  | { type: 'result'; result: AnalysisResult } // Final, validated result
+  | { type: 'error'; error: string }
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+/**
+ * Decode a JSON string body from `start` (just after the opening quote) as far as the
+ * text goes. Stops before an escape sequence that is cut off at the end of the text.
+ */
+function readJsonString(text: string, start: number): { value: string; end: number; complete: boolean } {
+  let value = ''
+  let i = start
+
+  while (i < text.length) {
+    const char = text[i]
+    if (char === '"') {
+      return { value, end: i + 1, complete: true }
+    }
+    if (char !== '\\') {
+      value += char
+      i++
+      continue
+    }
+    const escape = text[i + 1]
+    if (escape === undefined) break
+    if (escape === 'u') {
+      const hex = text.slice(i + 2, i + 6)
+      if (hex.length < 4) break
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 6
+    } else {
+      value += JSON_ESCAPES[escape] ?? escape
+      i += 2
+    }
+  }
+
+  return { value, end: i, complete: false }
+}
+
+function findStringField(text: string, name: string): number | null {
+  const match = new RegExp(`"${name}"\\s*:\\s*"`).exec(text)
+  return match ? match.index + match[0].length : null
+}
+
+function readCompleteField(text: string, name: string): string | null {
+  const start = findStringField(text, name)
+  if (start === null) return null
+  const { value, complete } = readJsonString(text, start)
+  return complete ? value : null
+}
+
+// An array of strings, once its closing bracket has arrived
+function readCompleteStringArray(text: string, name: string): string[] | null {
+  const match = new RegExp(`"${name}"\\s*:\\s*\\[`).exec(text)
+  if (!match) return null
+
+  const values: string[] = []
+  let i = match.index + match[0].length
+  while (i < text.length) {
+    const char = text[i]
+    if (char === ']') {
+      return values
+    }
+    if (char === '"') {
+      const { value, end, complete } = readJsonString(text, i + 1)
+      if (!complete) return null
+      values.push(value)
+      i = end
+    } else if (/[\s,]/.test(char)) {
+      i++
+    } else {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Incremental reader for the model's JSON response. Feed it text as it arrives; it returns
+ * the verdict once the ingredients are complete and have been checked against the
+ * interaction rules, then the analysis text piece by piece. A match turns the verdict into
+ * "avoid" here too, so the model's own verdict is never shown for an interacting food.
+ * The finished response still goes through parseAnalysisResponse().
+ */
+export function createAnalysisStreamParser() {
+  let text = ''
+  let verdictSent = false
+  let analysisPosition: number | null = null
+  let analysisDone = false
+
+  return {
+    push(delta: string): AnalysisStreamEvent[] {
+      text += delta
+      const events: AnalysisStreamEvent[] = []
+
+      if (!verdictSent) {
+        const verdict = readCompleteField(text, 'verdict')?.toLowerCase()
+        const summary = readCompleteField(text, 'summary')
+        const productName = readCompleteField(text, 'productName')
+        const ingredientsText = readCompleteField(text, 'ingredientsText')
+        const interactionIngredients = readCompleteStringArray(text, 'interactionIngredients')
+        if (verdict && summary !== null && productName !== null && ingredientsText !== null &&
+          interactionIngredients !== null && ['safe', 'caution', 'avoid'].includes(verdict)) {
+          verdictSent = true
+          const matches = scanForInteractions([productName, ingredientsText, ...interactionIngredients].join('\n'))
+          events.push({
+            type: 'verdict',
+            productName: productName.trim(),
+            verdict: matches.length > 0 ? 'avoid' : verdict as Verdict,
+            summary: summary.trim(),
+          })
+        }
+      }
+
+      if (analysisPosition === null) {
+        analysisPosition = findStringField(text, 'analysis')
+      }
+      if (analysisPosition !== null && !analysisDone) {
+        const { value, end, complete } = readJsonString(text, analysisPosition)
+        analysisPosition = end
+        analysisDone = complete
+        if (value) {
+          events.push({ type: 'analysis', text: value })
+        }
+      }
+
+      return events
+    },
+
+    text(): string {
+      return text
+    },
+  }
+}
+
+/**
+ * Read an /api/analyze stream, reporting progress as it arrives.
+ * Resolves with the final result; rejects with the server's message if the analysis failed.
+ */
+export async function readAnalysisStream(
+  body: ReadableStream<Uint8Array>,
+  onProgress: (event: Extract<AnalysisStreamEvent, { type: 'verdict' | 'analysis' }>) => void
+): Promise<AnalysisResult> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+    // The last line may be incomplete until the stream ends
+    const lines = buffered.split('\n')
+    buffered = done ? '' : lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const event = JSON.parse(line) as AnalysisStreamEvent
+      if (event.type === 'result') {
+        reader.cancel()
+        return event.result
+      }
+      if (event.type === 'error') {
+        reader.cancel()
+        throw new Error(event.error)
+      }
+      onProgress(event)
+    }
+
+    if (done) {
+      throw new Error('The analysis ended early. Please try again.')
+    }
+  }
+}
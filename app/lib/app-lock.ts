@@ -0,0 +1,174 @@
+/**
+ * App Lock
+ * Settings, failed-attempt lockout and biometric unlock for the optional PIN lock.
+ * The PIN itself never leaves this module; it derives the storage key in secure-storage.ts.
+ *
+ * Everything here is read before the app is unlocked, so it is kept in plain localStorage
+ * and must never contain health data.
+ */
+
+import { Capacitor } from '@capacitor/core'
+import { NativeBiometric } from '@capgo/capacitor-native-biometric'
+import { expandDoses } from './medication-schedule'
+import type { Medication } from './validation'
+
+export const LOCK_SETTINGS_KEY = 'appLockSettings'
+export const LOCKOUT_STATE_KEY = 'appLockAttempts'
+export const LOCKED_REMINDERS_KEY = 'appLockReminderTimes'
+
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30] as const // Minutes
+
+export const PIN_REGEX = /^\d{4,12}$/
+
+// Free attempts before a lockout, and how long the first lockout lasts (doubling after each further failure)
+export const MAX_FREE_ATTEMPTS = 5
+const LOCKOUT_BASE_MS = 30 * 1000
+const LOCKOUT_MAX_MS = 60 * 60 * 1000
+
+// How far ahead locked reminders are saved; refreshed whenever the app is unlocked
+const LOCKED_REMINDER_DAYS = 7
+
+export interface LockSettings {
+  enabled: boolean
+  idleMinutes: number
+  biometricEnabled: boolean
+}
+
+export interface LockoutState {
+  failedAttempts: number
+  lockedUntil: number | null // Epoch ms
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  enabled: false,
+  idleMinutes: 5,
+  biometricEnabled: false,
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const value = localStorage.getItem(key)
+    return value ? { ...fallback, ...JSON.parse(value) } : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function getLockSettings(): LockSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_LOCK_SETTINGS
+  }
+  return readJson(LOCK_SETTINGS_KEY, DEFAULT_LOCK_SETTINGS)
+}
+
+export function saveLockSettings(settings: LockSettings): void {
+  localStorage.setItem(LOCK_SETTINGS_KEY, JSON.stringify(settings))
+}
+
+export function getLockoutState(): LockoutState {
+  return readJson<LockoutState>(LOCKOUT_STATE_KEY, { failedAttempts: 0, lockedUntil: null })
+}
+
+/**
+ * Count a wrong PIN and start a lockout once the free attempts are used up
+ */
+export function recordFailedAttempt(now: number = Date.now()): LockoutState {
+  const failedAttempts = getLockoutState().failedAttempts + 1
+  const overLimit = failedAttempts - MAX_FREE_ATTEMPTS
+  const state: LockoutState = {
+    failedAttempts,
+    lockedUntil: overLimit >= 0 ? now + Math.min(LOCKOUT_BASE_MS * 2 ** overLimit, LOCKOUT_MAX_MS) : null,
+  }
+  localStorage.setItem(LOCKOUT_STATE_KEY, JSON.stringify(state))
+  return state
+}
+
+export function resetFailedAttempts(): void {
+  localStorage.removeItem(LOCKOUT_STATE_KEY)
+}
+
+/**
+ * Milliseconds until another PIN attempt is allowed, or 0
+ */
+export function getLockoutRemainingMs(state: LockoutState, now: number = Date.now()): number {
+  return state.lockedUntil ? Math.max(0, state.lockedUntil - now) : 0
+}
+
+// Biometric unlock inside the Capacitor shell. The PIN is kept in the iOS Keychain /
+// Android Keystore and released only after a biometric check.
+const BIOMETRIC_SERVER = 'com.transplantfood.app.lock'
+
+export async function isBiometricAvailable(): Promise<boolean> {
+  if (!Capacitor.isNativePlatform() || !Capacitor.isPluginAvailable('NativeBiometric')) {
+    return false
+  }
+  try {
+    return (await NativeBiometric.isAvailable()).isAvailable
+  } catch {
+    return false
+  }
+}
+
+export async function saveBiometricPin(pin: string): Promise<void> {
+  await NativeBiometric.setCredentials({ username: 'app-lock', password: pin, server: BIOMETRIC_SERVER })
+}
+
+export async function clearBiometricPin(): Promise<void> {
+  try {
+    await NativeBiometric.deleteCredentials({ server: BIOMETRIC_SERVER })
+  } catch {
+    // Nothing stored
+  }
+}
+
+/**
+ * Ask for Face ID / fingerprint and return the stored PIN, or null if cancelled or failed
+ */
+export async function getBiometricPin(): Promise<string | null> {
+  try {
+    await NativeBiometric.verifyIdentity({ reason: 'Unlock TransplantFood', title: 'Unlock TransplantFood' })
+    const credentials = await NativeBiometric.getCredentials({ server: BIOMETRIC_SERVER })
+    return credentials.password
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Upcoming dose times, without medication details, so reminders can still fire while locked
+ */
+export function saveLockedReminderTimes(times: Date[]): void {
+  localStorage.setItem(LOCKED_REMINDERS_KEY, JSON.stringify(times.map((t) => t.getTime())))
+}
+
+export function getLockedReminderTimes(): number[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCKED_REMINDERS_KEY) || '[]')
+    return Array.isArray(saved) ? saved.filter((t): t is number => typeof t === 'number') : []
+  } catch {
+    return []
+  }
+}
+
+export function clearLockedReminderTimes(): void {
+  localStorage.removeItem(LOCKED_REMINDERS_KEY)
+}
+
+/**
+ * Save the coming week of dose times for locked reminders, or clear them when the lock is off
+ */
+export function updateLockedReminderTimes(medications: Medication[], now: Date = new Date()): void {
+  if (!getLockSettings().enabled) {
+    clearLockedReminderTimes()
+    return
+  }
+
+  const until = new Date(now.getTime() + LOCKED_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+  const times = new Set<number>()
+  for (const med of medications) {
+    for (const dose of expandDoses(med, now, until)) {
+      times.add(dose.time.getTime())
+    }
+  }
+  saveLockedReminderTimes([...times].sort((a, b) => a - b).map((t) => new Date(t)))
+}
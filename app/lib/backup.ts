@@ -0,0 +1,464 @@
+/**
+ * Backup and Restore
+ * Bundles every piece of app data into a versioned file encrypted with a passphrase,
+ * so a patient can move to a new phone or recover after clearing browser data.
+ *
+ * The file is AES-GCM encrypted with a key derived from the passphrase (PBKDF2); the
+ * device's own storage key is never exported. Device-specific state such as push
+ * tokens and app lock settings is left out.
+ */
+
+import { fromBase64, secureGet, secureRemove, secureSet, toBase64 } from './secure-storage'
+import { loadStoredData, saveStoredData } from './stored-data'
+import { DOSE_HISTORY_KEY } from './dose-history'
+import { INTAKE_KEY_PREFIX } from './intake-log'
+import { PROFILE_STORAGE_KEY } from './patient-profile'
+import { ANALYSIS_HISTORY_KEY } from './analysis-history'
+import { PRODUCT_CACHE_KEY } from './product-cache'
+import {
+  isValidDateKey,
+  validateAnalysisHistoryEntry,
+  validateCachedProduct,
+  validateDailyMenu,
+  validateDoseEvent,
+  validateIntakeEntry,
+  validateMealRecommendation,
+  validateMedication,
+  validatePatientProfile,
+  type AnalysisHistoryEntry,
+  type CachedProduct,
+  type DailyMenu,
+  type DoseEvent,
+  type IntakeEntry,
+  type MealRecommendation,
+  type Medication,
+  type PatientProfile,
+  type ValidationResult,
+} from './validation'
+
+export const BACKUP_FORMAT = 'transplantfood-backup'
+export const BACKUP_VERSION = 1
+// Oldest backup version this app can still restore; raise it when support for one is dropped
+const MIN_BACKUP_VERSION = 1
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+const MENU_KEY_PREFIX = 'dailyMenu_'
+
+// PBKDF2 work factor for the passphrase key; stored in the file so it can be raised later
+const BACKUP_KDF_ITERATIONS = 310000
+
+export interface BackupData {
+  medications: Medication[]
+  doseHistory: DoseEvent[]
+  patientProfile: PatientProfile | null
+  mealFavorites: MealRecommendation[]
+  mealsPurchased: boolean
+  dailyMenus: Record<string, DailyMenu> // By YYYY-MM-DD
+  intakeLogs: Record<string, IntakeEntry[]> // By YYYY-MM-DD
+  analysisHistory: AnalysisHistoryEntry[] // Newest first
+  productCache: CachedProduct[] // Newest first
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; iv: string }
+  ciphertext: string
+}
+
+export type ImportMode = 'merge' | 'replace'
+
+export const BACKUP_SECTIONS = [
+  'medications',
+  'doseHistory',
+  'patientProfile',
+  'mealFavorites',
+  'mealsPurchased',
+  'dailyMenus',
+  'intakeLogs',
+  'analysisHistory',
+  'productCache',
+] as const
+export type BackupSection = typeof BACKUP_SECTIONS[number]
+
+export const SECTION_LABELS: Record<BackupSection, string> = {
+  medications: 'Medications',
+  doseHistory: 'Dose history',
+  patientProfile: 'Profile',
+  mealFavorites: 'Favorite meals',
+  mealsPurchased: 'Meal recommendations purchase',
+  dailyMenus: 'Saved daily menus',
+  intakeLogs: 'Food diary entries',
+  analysisHistory: 'Analysis history',
+  productCache: 'Scanned products',
+}
+
+export interface SectionChange {
+  section: BackupSection
+  current: number
+  incoming: number
+  added: number
+  updated: number
+  removed: number
+}
+
+export const EMPTY_BACKUP: BackupData = {
+  medications: [],
+  doseHistory: [],
+  patientProfile: null,
+  mealFavorites: [],
+  mealsPurchased: false,
+  dailyMenus: {},
+  intakeLogs: {},
+  analysisHistory: [],
+  productCache: [],
+}
+
+function storageKeysWithPrefix(prefix: string): string[] {
+  return Object.keys(localStorage).filter((key) => key.startsWith(prefix))
+}
+
+/**
+ * Read everything the backup covers from secure storage
+ */
+export async function collectBackupData(): Promise<BackupData> {
+  const dailyMenus: Record<string, DailyMenu> = {}
+  for (const key of storageKeysWithPrefix(MENU_KEY_PREFIX)) {
+    const menu = await loadStoredData<DailyMenu | null>(key)
+    if (menu) {
+      dailyMenus[key.slice(MENU_KEY_PREFIX.length)] = menu
+    }
+  }
+
+  const intakeLogs: Record<string, IntakeEntry[]> = {}
+  for (const key of storageKeysWithPrefix(INTAKE_KEY_PREFIX)) {
+    const entries = await loadStoredData<IntakeEntry[]>(key)
+    if (entries.length > 0) {
+      intakeLogs[key.slice(INTAKE_KEY_PREFIX.length)] = entries
+    }
+  }
+
+  return {
+    medications: await loadStoredData<Medication[]>('medications'),
+    doseHistory: await loadStoredData<DoseEvent[]>(DOSE_HISTORY_KEY),
+    patientProfile: await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY),
+    mealFavorites: await loadStoredData<MealRecommendation[]>('mealFavorites'),
+    mealsPurchased: (await secureGet<string>('mealsPurchased', '')) === 'true',
+    dailyMenus,
+    intakeLogs,
+    analysisHistory: await loadStoredData<AnalysisHistoryEntry[]>(ANALYSIS_HISTORY_KEY),
+    productCache: await loadStoredData<CachedProduct[]>(PRODUCT_CACHE_KEY),
+  }
+}
+
+/**
+ * Write backup data to secure storage, replacing what is there.
+ * Use mergeBackupData() first to keep existing data.
+ */
+export async function writeBackupData(data: BackupData): Promise<void> {
+  await saveStoredData('medications', data.medications)
+  await saveStoredData(DOSE_HISTORY_KEY, data.doseHistory)
+  if (data.patientProfile) {
+    await saveStoredData(PROFILE_STORAGE_KEY, data.patientProfile)
+  } else {
+    secureRemove(PROFILE_STORAGE_KEY)
+  }
+  await saveStoredData('mealFavorites', data.mealFavorites)
+  if (data.mealsPurchased) {
+    await secureSet('mealsPurchased', 'true')
+  } else {
+    secureRemove('mealsPurchased')
+  }
+
+  for (const key of storageKeysWithPrefix(MENU_KEY_PREFIX)) {
+    if (!(key.slice(MENU_KEY_PREFIX.length) in data.dailyMenus)) {
+      secureRemove(key)
+    }
+  }
+  for (const [dateKey, menu] of Object.entries(data.dailyMenus)) {
+    await saveStoredData(`${MENU_KEY_PREFIX}${dateKey}`, menu)
+  }
+
+  for (const key of storageKeysWithPrefix(INTAKE_KEY_PREFIX)) {
+    if (!(key.slice(INTAKE_KEY_PREFIX.length) in data.intakeLogs)) {
+      secureRemove(key)
+    }
+  }
+  for (const [dateKey, entries] of Object.entries(data.intakeLogs)) {
+    await saveStoredData(`${INTAKE_KEY_PREFIX}${dateKey}`, entries)
+  }
+
+  await saveStoredData(ANALYSIS_HISTORY_KEY, data.analysisHistory)
+  await saveStoredData(PRODUCT_CACHE_KEY, data.productCache)
+}
+
+/**
+ * Keep only the valid parts of decrypted backup data.
+ * Invalid records are skipped rather than failing the whole import; `skipped` says what was left out.
+ */
+export function readBackupData(data: unknown): { data: BackupData; skipped: string[] } {
+  if (!data || typeof data !== 'object') {
+    throw new Error('The backup file is empty or damaged')
+  }
+
+  const raw = data as Record<string, unknown>
+  const skipped: string[] = []
+
+  const validItems = <T>(value: unknown, section: BackupSection, validate: (item: unknown) => ValidationResult): T[] => {
+    if (value === undefined) return []
+    if (!Array.isArray(value)) {
+      skipped.push(`${SECTION_LABELS[section]}: not a list`)
+      return []
+    }
+    return value.filter((item, index) => {
+      const result = validate(item)
+      if (!result.valid) {
+        skipped.push(`${SECTION_LABELS[section]} ${index + 1}: ${result.errors.join(', ')}`)
+      }
+      return result.valid
+    }) as T[]
+  }
+
+  const validByDate = <T>(value: unknown, section: BackupSection, read: (item: unknown, dateKey: string) => T | null): Record<string, T> => {
+    const result: Record<string, T> = {}
+    if (value === undefined) return result
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      skipped.push(`${SECTION_LABELS[section]}: invalid format`)
+      return result
+    }
+    for (const [dateKey, item] of Object.entries(value)) {
+      if (!isValidDateKey(dateKey)) {
+        skipped.push(`${SECTION_LABELS[section]}: invalid date`)
+        continue
+      }
+      const parsed = read(item, dateKey)
+      if (parsed !== null) {
+        result[dateKey] = parsed
+      }
+    }
+    return result
+  }
+
+  let patientProfile: PatientProfile | null = null
+  if (raw.patientProfile !== undefined && raw.patientProfile !== null) {
+    const result = validatePatientProfile(raw.patientProfile)
+    if (result.valid) {
+      patientProfile = raw.patientProfile as PatientProfile
+    } else {
+      skipped.push(`${SECTION_LABELS.patientProfile}: ${result.errors.join(', ')}`)
+    }
+  }
+
+  return {
+    data: {
+      medications: validItems<Medication>(raw.medications, 'medications', validateMedication),
+      doseHistory: validItems<DoseEvent>(raw.doseHistory, 'doseHistory', validateDoseEvent),
+      patientProfile,
+      mealFavorites: validItems<MealRecommendation>(raw.mealFavorites, 'mealFavorites', validateMealRecommendation),
+      mealsPurchased: raw.mealsPurchased === true,
+      dailyMenus: validByDate<DailyMenu>(raw.dailyMenus, 'dailyMenus', (menu, dateKey) => {
+        const result = validateDailyMenu(menu)
+        if (!result.valid) {
+          skipped.push(`${SECTION_LABELS.dailyMenus} ${dateKey}: ${result.errors.join(', ')}`)
+          return null
+        }
+        return menu as DailyMenu
+      }),
+      intakeLogs: validByDate<IntakeEntry[]>(raw.intakeLogs, 'intakeLogs', (entries) => {
+        const valid = validItems<IntakeEntry>(entries, 'intakeLogs', validateIntakeEntry)
+        return valid.length > 0 ? valid : null
+      }),
+      analysisHistory: validItems<AnalysisHistoryEntry>(raw.analysisHistory, 'analysisHistory', validateAnalysisHistoryEntry),
+      productCache: validItems<CachedProduct>(raw.productCache, 'productCache', validateCachedProduct),
+    },
+    skipped,
+  }
+}
+
+// Each section as keyed records, so merging and previewing work the same way everywhere
+function toRecords(data: BackupData): Record<BackupSection, Map<string, unknown>> {
+  const intake = new Map<string, unknown>()
+  for (const [dateKey, entries] of Object.entries(data.intakeLogs)) {
+    for (const entry of entries) {
+      intake.set(`${dateKey}/${entry.id}`, entry)
+    }
+  }
+
+  return {
+    medications: new Map(data.medications.map((med) => [med.id, med])),
+    // One event per dose slot, matching upsertDoseEvent()
+    doseHistory: new Map(data.doseHistory.map((event) => [`${event.medicationId}_${event.scheduledTime}`, event])),
+    patientProfile: new Map(data.patientProfile ? [['profile', data.patientProfile]] : []),
+    mealFavorites: new Map(data.mealFavorites.map((meal) => [meal.id, meal])),
+    mealsPurchased: new Map(data.mealsPurchased ? [['purchased', true]] : []),
+    dailyMenus: new Map(Object.entries(data.dailyMenus)),
+    intakeLogs: intake,
+    analysisHistory: new Map(data.analysisHistory.map((entry) => [entry.id, entry])),
+    productCache: new Map(data.productCache.map((product) => [product.barcode, product])),
+  }
+}
+
+function fromRecords(records: Record<BackupSection, Map<string, unknown>>): BackupData {
+  const intakeLogs: Record<string, IntakeEntry[]> = {}
+  for (const [key, entry] of records.intakeLogs) {
+    const dateKey = key.slice(0, key.indexOf('/'))
+    intakeLogs[dateKey] = [...(intakeLogs[dateKey] ?? []), entry as IntakeEntry]
+  }
+
+  return {
+    medications: [...records.medications.values()] as Medication[],
+    doseHistory: [...records.doseHistory.values()] as DoseEvent[],
+    patientProfile: (records.patientProfile.get('profile') as PatientProfile | undefined) ?? null,
+    mealFavorites: [...records.mealFavorites.values()] as MealRecommendation[],
+    mealsPurchased: records.mealsPurchased.has('purchased'),
+    dailyMenus: Object.fromEntries(records.dailyMenus) as Record<string, DailyMenu>,
+    intakeLogs,
+    analysisHistory: ([...records.analysisHistory.values()] as AnalysisHistoryEntry[])
+      .sort((a, b) => Date.parse(b.analyzedAt) - Date.parse(a.analyzedAt)),
+    productCache: ([...records.productCache.values()] as CachedProduct[])
+      .sort((a, b) => Date.parse(b.analyzedAt) - Date.parse(a.analyzedAt)),
+  }
+}
+
+/**
+ * Combine current and imported data. Merge keeps everything and lets the backup win
+ * for records both have; replace keeps only the backup.
+ */
+export function mergeBackupData(current: BackupData, incoming: BackupData, mode: ImportMode): BackupData {
+  if (mode === 'replace') {
+    return incoming
+  }
+
+  const currentRecords = toRecords(current)
+  const incomingRecords = toRecords(incoming)
+  const merged = {} as Record<BackupSection, Map<string, unknown>>
+  for (const section of BACKUP_SECTIONS) {
+    merged[section] = new Map([...currentRecords[section], ...incomingRecords[section]])
+  }
+  return fromRecords(merged)
+}
+
+/**
+ * What an import would add, change and remove in each section
+ */
+export function previewImport(current: BackupData, incoming: BackupData, mode: ImportMode): SectionChange[] {
+  const before = toRecords(current)
+  const after = toRecords(mergeBackupData(current, incoming, mode))
+  const imported = toRecords(incoming)
+
+  return BACKUP_SECTIONS.map((section) => {
+    let added = 0
+    let updated = 0
+    for (const [key, value] of after[section]) {
+      if (!before[section].has(key)) {
+        added++
+      } else if (JSON.stringify(before[section].get(key)) !== JSON.stringify(value)) {
+        updated++
+      }
+    }
+    const removed = [...before[section].keys()].filter((key) => !after[section].has(key)).length
+
+    return {
+      section,
+      current: before[section].size,
+      incoming: imported[section].size,
+      added,
+      updated,
+      removed,
+    }
+  })
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+// The format and version are bound as additional data, so they cannot be altered without detection
+function headerData(version: number): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${BACKUP_FORMAT}:${version}`)
+}
+
+/**
+ * Encrypt backup data with a passphrase
+ */
+export async function encryptBackup(data: BackupData, passphrase: string, now: Date = new Date()): Promise<BackupFile> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await derivePassphraseKey(passphrase, salt, BACKUP_KDF_ITERATIONS)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerData(BACKUP_VERSION) },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  )
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: BACKUP_KDF_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Parse and decrypt a backup file. Returns the raw data; pass it through readBackupData() before use.
+ */
+export async function decryptBackup(fileContents: string, passphrase: string): Promise<{ createdAt: string; data: unknown }> {
+  let file: BackupFile
+  try {
+    file = JSON.parse(fileContents)
+  } catch {
+    throw new Error('This is not a TransplantFood backup file')
+  }
+
+  if (!file || file.format !== BACKUP_FORMAT) {
+    throw new Error('This is not a TransplantFood backup file')
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version)) {
+    throw new Error('The backup file is damaged')
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update and try again.')
+  }
+  if (file.version < MIN_BACKUP_VERSION) {
+    throw new Error('This backup was made by an older version of the app and can no longer be restored.')
+  }
+  if (file.kdf?.name !== 'PBKDF2' || file.cipher?.name !== 'AES-GCM' || typeof file.ciphertext !== 'string' ||
+      typeof file.kdf.iterations !== 'number' || file.kdf.iterations < 100000 || file.kdf.iterations > 10000000) {
+    throw new Error('The backup file is damaged')
+  }
+
+  let plaintext: ArrayBuffer
+  try {
+    const key = await derivePassphraseKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations)
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(file.cipher.iv), additionalData: headerData(file.version) },
+      key,
+      fromBase64(file.ciphertext)
+    )
+  } catch {
+    // AES-GCM cannot tell a wrong passphrase from a modified file
+    throw new Error('Wrong passphrase, or the backup file was modified')
+  }
+
+  try {
+    return { createdAt: file.createdAt, data: JSON.parse(new TextDecoder().decode(plaintext)) }
+  } catch {
+    throw new Error('The backup file is damaged')
+  }
+}
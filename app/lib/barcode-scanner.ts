@@ -0,0 +1,118 @@
+/**
+ * Barcode Scanning
+ * Reads UPC/EAN product codes with ML Kit in the native app, or with the browser's
+ * BarcodeDetector on a camera stream where it is supported
+ */
+
+import { Capacitor } from '@capacitor/core'
+import { BarcodeFormat, BarcodeScanner } from '@capacitor-mlkit/barcode-scanning'
+
+export type ScannerMode = 'native' | 'browser' | 'manual'
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM library does not include yet
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance
+  getSupportedFormats(): Promise<string[]>
+}
+
+const BROWSER_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e']
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  return (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null
+}
+
+/**
+ * Pick the best available way to read a barcode on this device.
+ * "manual" means the code has to be typed in.
+ */
+export async function getScannerMode(): Promise<ScannerMode> {
+  if (Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('BarcodeScanner')) {
+    try {
+      if ((await BarcodeScanner.isSupported()).supported) {
+        return 'native'
+      }
+    } catch {
+      // Fall through to the browser options
+    }
+  }
+
+  const Detector = getBarcodeDetector()
+  if (Detector && 'mediaDevices' in navigator) {
+    try {
+      const formats = await Detector.getSupportedFormats()
+      if (BROWSER_FORMATS.some((format) => formats.includes(format))) {
+        return 'browser'
+      }
+    } catch {
+      return 'manual'
+    }
+  }
+
+  return 'manual'
+}
+
+/**
+ * Open the native scanner UI and return the code read, or null if the user cancelled
+ */
+export async function scanNative(): Promise<string | null> {
+  if (Capacitor.getPlatform() === 'android') {
+    // Android reads barcodes through a Google Play services module that may need downloading first
+    const { available } = await BarcodeScanner.isGoogleBarcodeScannerModuleAvailable()
+    if (!available) {
+      await BarcodeScanner.installGoogleBarcodeScannerModule()
+      throw new Error('The barcode scanner is being installed. Please try again in a moment.')
+    }
+  } else {
+    const { camera } = await BarcodeScanner.requestPermissions()
+    if (camera !== 'granted' && camera !== 'limited') {
+      throw new Error('Camera access is needed to scan barcodes')
+    }
+  }
+
+  const { barcodes } = await BarcodeScanner.scan({
+    formats: [BarcodeFormat.Ean13, BarcodeFormat.Ean8, BarcodeFormat.UpcA, BarcodeFormat.UpcE],
+  })
+  return barcodes[0]?.rawValue ?? null
+}
+
+/**
+ * Watch a playing video element until a barcode is found or the signal is aborted.
+ * Resolves with the first code read, or null when aborted.
+ */
+export function detectFromVideo(video: HTMLVideoElement, signal: AbortSignal): Promise<string | null> {
+  const Detector = getBarcodeDetector()
+  if (!Detector) {
+    return Promise.reject(new Error('Barcode scanning is not supported in this browser'))
+  }
+  const detector = new Detector({ formats: BROWSER_FORMATS })
+
+  return new Promise((resolve, reject) => {
+    const tick = async () => {
+      if (signal.aborted) {
+        resolve(null)
+        return
+      }
+      try {
+        if (video.readyState >= video.HAVE_CURRENT_DATA) {
+          const [barcode] = await detector.detect(video)
+          if (barcode?.rawValue) {
+            resolve(barcode.rawValue)
+            return
+          }
+        }
+        setTimeout(tick, 250)
+      } catch (error) {
+        reject(error)
+      }
+    }
+    tick()
+  })
+}
@@ -0,0 +1,184 @@
+/**
+ * Client IP
+ * Works out the caller's address from the headers our reverse proxies add. Each proxy
+ * appends the address it received the request from to X-Forwarded-For, so only the
+ * rightmost entries can be believed: the chain is walked from the right, past our own
+ * proxies, and everything further left (which the client wrote itself) is ignored.
+ */
+
+import net from 'net'
+
+export interface ProxyConfig {
+  hops: number // Reverse proxies in front of the app, each appending one X-Forwarded-For entry
+  trusted: AddressRange[] // Further proxies (e.g. an internal load balancer) skipped while walking left
+  // Whether our proxy sets X-Real-IP itself. Otherwise the header is the client's own and is ignored.
+  realIp: boolean
+}
+
+export interface AddressRange {
+  bytes: number[]
+  prefixLength: number
+}
+
+// Vercel and a single nginx in front of the app both add exactly one entry
+const DEFAULT_PROXY_HOPS = 1
+
+function parseHops(value: string | undefined): number {
+  const hops = Number(value)
+  return value && Number.isInteger(hops) && hops >= 0 ? hops : DEFAULT_PROXY_HOPS
+}
+
+/**
+ * Parse an IP address into its bytes: 4 for IPv4, 16 for IPv6.
+ * IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are treated as IPv4.
+ */
+export function parseAddress(value: string): number[] | null {
+  const address = value.trim()
+  const version = net.isIP(address)
+
+  if (version === 4) {
+    return address.split('.').map(Number)
+  }
+  if (version !== 6) {
+    return null
+  }
+
+  const [head, tail = ''] = address.toLowerCase().split('::')
+  const toGroups = (part: string): number[] => {
+    if (!part) return []
+    return part.split(':').flatMap((group) => {
+      if (group.includes('.')) {
+        // Embedded IPv4 in the last 32 bits
+        const [a, b, c, d] = group.split('.').map(Number)
+        return [(a << 8) | b, (c << 8) | d]
+      }
+      return [parseInt(group, 16)]
+    })
+  }
+
+  const headGroups = toGroups(head)
+  const tailGroups = toGroups(tail)
+  const groups = address.includes('::')
+    ? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups]
+    : headGroups
+  const bytes = groups.flatMap((group) => [group >> 8, group & 0xff])
+
+  const mapped = bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+  return mapped ? bytes.slice(12) : bytes
+}
+
+function formatAddress(bytes: number[]): string {
+  if (bytes.length === 4) {
+    return bytes.join('.')
+  }
+  const groups: string[] = []
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16))
+  }
+  return groups.join(':')
+}
+
+/**
+ * Parse a comma-separated list of addresses and CIDR ranges, e.g. "10.0.0.0/8, fd00::/8".
+ * Entries that are not valid are skipped with a warning.
+ */
+export function parseTrustedProxies(value: string | undefined): AddressRange[] {
+  if (!value) {
+    return []
+  }
+
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean).flatMap((entry) => {
+    const [address, prefix] = entry.split('/')
+    const bytes = parseAddress(address)
+    const maxPrefix = bytes ? bytes.length * 8 : 0
+    const prefixLength = prefix === undefined ? maxPrefix : Number(prefix)
+    if (!bytes || !Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > maxPrefix) {
+      console.warn(`Ignoring invalid TRUSTED_PROXIES entry: ${entry}`)
+      return []
+    }
+    return [{ bytes, prefixLength }]
+  })
+}
+
+function inRange(bytes: number[], range: AddressRange): boolean {
+  if (bytes.length !== range.bytes.length) {
+    return false
+  }
+  for (let bit = 0; bit < range.prefixLength; bit += 8) {
+    const mask = (0xff << (8 - Math.min(8, range.prefixLength - bit))) & 0xff
+    if ((bytes[bit / 8] & mask) !== (range.bytes[bit / 8] & mask)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Forwarded entries may carry a port ("1.2.3.4:5678", "[2001:db8::1]:443")
+function stripPort(entry: string): string {
+  const bracketed = entry.match(/^\[([^\]]+)\](?::\d+)?$/)
+  if (bracketed) {
+    return bracketed[1]
+  }
+  const ipv4WithPort = entry.match(/^(\d+\.\d+\.\d+\.\d+):\d+$/)
+  return ipv4WithPort ? ipv4WithPort[1] : entry
+}
+
+export const DEFAULT_PROXY_CONFIG: ProxyConfig = {
+  hops: parseHops(process.env.TRUSTED_PROXY_HOPS),
+  trusted: parseTrustedProxies(process.env.TRUSTED_PROXIES),
+  realIp: process.env.TRUSTED_PROXY_REAL_IP === 'true',
+}
+
+/**
+ * Refuse a production setup with no client address to limit by: with no proxy hops, every
+ * forwarded header is the client's own and every request would be refused as unidentified.
+ * Checked when the server starts.
+ */
+export function assertProxyConfig(config: ProxyConfig = DEFAULT_PROXY_CONFIG): void {
+  if (config.hops === 0) {
+    throw new Error('TRUSTED_PROXY_HOPS=0 leaves no client address for rate limits; run the app behind a reverse proxy')
+  }
+}
+
+/**
+ * The client's address as bytes, or null when it cannot be trusted or there is none
+ */
+export function getClientAddress(request: Request, config: ProxyConfig = DEFAULT_PROXY_CONFIG): number[] | null {
+  // With no proxy in front, every forwarded header was written by the client
+  if (config.hops === 0) {
+    return null
+  }
+
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (!forwarded) {
+    const realIp = config.realIp ? request.headers.get('x-real-ip') : null
+    return realIp ? parseAddress(stripPort(realIp)) : null
+  }
+
+  const chain = forwarded.split(',').map((entry) => parseAddress(stripPort(entry.trim())))
+
+  // The entry written by our outermost proxy, then further left past any trusted addresses
+  let index = Math.max(0, chain.length - config.hops)
+  while (index > 0) {
+    const entry = chain[index]
+    if (!entry || !config.trusted.some((range) => inRange(entry, range))) {
+      break
+    }
+    index--
+  }
+  return chain[index]
+}
+
+/**
+ * Key for per-IP limits. IPv6 clients usually get a whole /64, so the key is the /64
+ * rather than the single address they can rotate within it.
+ */
+export function getClientIp(request: Request, config: ProxyConfig = DEFAULT_PROXY_CONFIG): string | null {
+  const address = getClientAddress(request, config)
+  if (!address) {
+    return null
+  }
+  return address.length === 16
+    ? `${formatAddress([...address.slice(0, 8), 0, 0, 0, 0, 0, 0, 0, 0])}/64`
+    : formatAddress(address)
+}
@@ -0,0 +1,238 @@
+/**
+ * Clinic Report
+ * Medication list and adherence summary for clinic visits, exported as PDF, a FHIR R4
+ * Bundle of MedicationStatement resources, or CSV. Everything is built on the device.
+ */
+
+import { summarizeDoses } from './dose-history'
+import { describeSchedule, getDosageOn, getDosagePeriods, getMedicationSchedule, toDateKey } from './medication-schedule'
+import { ORGAN_LABELS } from './patient-profile'
+import { createTextPdf, type PdfLine } from './pdf'
+import type { DoseEvent, Medication, PatientProfile } from './validation'
+
+export interface ReportMedication {
+  medication: Medication
+  schedule: string // e.g. "Every other day until Mar 3"
+  currentDosage: string // Accounts for taper phases
+  adherence: {
+    taken: number
+    missed: number
+    percent: number | null
+    missedDoses: string[] // ISO timestamps, most recent first
+  } | null // null without dose history in the range
+}
+
+export interface ClinicReport {
+  generatedAt: string
+  from: string // YYYY-MM-DD, inclusive
+  to: string
+  profile: PatientProfile | null
+  medications: ReportMedication[]
+}
+
+const FHIR_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+export function buildClinicReport(
+  medications: Medication[],
+  events: DoseEvent[],
+  profile: PatientProfile | null,
+  from: string,
+  to: string,
+  now: Date = new Date()
+): ClinicReport {
+  const rangeStart = new Date(`${from}T00:00:00`)
+  const rangeEnd = new Date(`${to}T23:59:59.999`)
+  const today = toDateKey(now)
+
+  return {
+    generatedAt: now.toISOString(),
+    from,
+    to,
+    profile,
+    medications: medications.map((medication) => {
+      const summary = summarizeDoses(medication.id, events, rangeStart, rangeEnd)
+      return {
+        medication,
+        schedule: describeSchedule(getMedicationSchedule(medication)),
+        currentDosage: getDosageOn(medication, today),
+        adherence: summary.taken + summary.missed > 0
+          ? { ...summary, missedDoses: summary.missedDoses.map((e) => e.scheduledTime) }
+          : null,
+      }
+    }),
+  }
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function formatDateKey(key: string): string {
+  return new Date(`${key}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export function describeAdherence(adherence: ReportMedication['adherence']): string {
+  if (!adherence) {
+    return 'No doses recorded'
+  }
+  return `${adherence.percent ?? '-'}% (${adherence.taken} taken, ${adherence.missed} missed)`
+}
+
+/**
+ * Printable PDF of the report
+ */
+export function reportToPdf(report: ClinicReport): Blob {
+  const lines: PdfLine[] = [
+    { text: 'Medication List and Adherence Report', size: 16, bold: true },
+    { text: `Doses from ${formatDateKey(report.from)} to ${formatDateKey(report.to)}`, spaceBefore: 4 },
+  ]
+
+  if (report.profile) {
+    const { profile } = report
+    lines.push({
+      text: [
+        `${ORGAN_LABELS[profile.organType]} transplant`,
+        profile.transplantDate && `on ${formatDateKey(profile.transplantDate)}`,
+      ].filter(Boolean).join(' '),
+    })
+    if (profile.allergies.length > 0) {
+      lines.push({ text: `Food allergies: ${profile.allergies.join(', ')}` })
+    }
+  }
+
+  if (report.medications.length === 0) {
+    lines.push({ text: 'No medications saved.', spaceBefore: 12 })
+  }
+
+  for (const { medication, schedule, currentDosage, adherence } of report.medications) {
+    lines.push({ text: medication.name, size: 12, bold: true, spaceBefore: 14 })
+    lines.push({ text: `Dosage: ${currentDosage || '-'}` })
+    lines.push({ text: `Schedule: ${schedule} at ${medication.times.join(', ')}` })
+    if (medication.withFood) {
+      lines.push({ text: 'Take with food' })
+    }
+    if (medication.notes) {
+      lines.push({ text: `Notes: ${medication.notes}` })
+    }
+    lines.push({ text: `Adherence: ${describeAdherence(adherence)}` })
+    if (adherence && adherence.missedDoses.length > 0) {
+      lines.push({ text: `Missed: ${adherence.missedDoses.map(formatDateTime).join('; ')}` })
+    }
+  }
+
+  lines.push({
+    text: 'Self-reported by the patient in the TransplantFood app. Adherence reflects doses the patient marked as taken.',
+    size: 8,
+    spaceBefore: 18,
+  })
+
+  return createTextPdf(lines, `Generated ${formatDateTime(report.generatedAt)}`)
+}
+
+function toFhirTime(time: string): string {
+  const [hours, minutes] = time.split(':')
+  return `${hours.padStart(2, '0')}:${minutes}:00`
+}
+
+/**
+ * FHIR R4 Bundle (type "collection") with one MedicationStatement per medication
+ */
+export function reportToFhirBundle(report: ClinicReport): object {
+  const today = toDateKey(new Date(report.generatedAt))
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: report.generatedAt,
+    entry: report.medications.map(({ medication, schedule: scheduleText, adherence }) => {
+      const schedule = getMedicationSchedule(medication)
+      const { recurrence } = schedule
+
+      const notes = [
+        medication.notes,
+        `Adherence ${report.from} to ${report.to}: ${describeAdherence(adherence)}`,
+      ].filter(Boolean)
+
+      return {
+        fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+        resource: {
+          resourceType: 'MedicationStatement',
+          status: schedule.endDate && schedule.endDate < today ? 'completed' : 'active',
+          medicationCodeableConcept: { text: medication.name },
+          subject: { display: 'Patient' },
+          effectivePeriod: {
+            start: schedule.startDate,
+            ...(schedule.endDate ? { end: schedule.endDate } : {}),
+          },
+          dateAsserted: report.generatedAt,
+          informationSource: { display: 'Patient (self-reported)' },
+          note: notes.map((text) => ({ text })),
+          // Each taper phase in order, then the regular dosage
+          dosage: getDosagePeriods(medication).map((period, index) => ({
+            sequence: index + 1,
+            text: `${period.dosage}, ${scheduleText} at ${medication.times.join(', ')}`,
+            ...(medication.withFood ? { additionalInstruction: [{ text: 'Take with food' }] } : {}),
+            ...(medication.notes ? { patientInstruction: medication.notes } : {}),
+            timing: {
+              repeat: {
+                boundsPeriod: { start: period.start, ...(period.end ? { end: period.end } : {}) },
+                // Doses per dose day; weekday schedules narrow the days with dayOfWeek
+                frequency: medication.times.length,
+                period: recurrence.type === 'interval' ? recurrence.everyDays : 1,
+                periodUnit: 'd',
+                timeOfDay: medication.times.map(toFhirTime),
+                ...(recurrence.type === 'weekdays' ? { dayOfWeek: recurrence.days.map((d) => FHIR_WEEKDAYS[d]) } : {}),
+              },
+            },
+          })),
+        },
+      }
+    }),
+  }
+}
+
+function escapeCsv(value: string | number): string {
+  let text = String(value)
+  // Keep spreadsheets from running cell contents as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per medication, for spreadsheets and EHR import tools
+ */
+export function reportToCsv(report: ClinicReport): string {
+  const header = [
+    'Medication',
+    'Dosage',
+    'Times',
+    'Schedule',
+    'Take With Food',
+    'Notes',
+    'Doses Taken',
+    'Doses Missed',
+    'Adherence %',
+    'Missed Doses',
+    'Report Start',
+    'Report End',
+  ]
+
+  const rows = report.medications.map(({ medication, schedule, currentDosage, adherence }) => [
+    medication.name,
+    currentDosage,
+    medication.times.join(' '),
+    schedule,
+    medication.withFood ? 'Yes' : 'No',
+    medication.notes,
+    adherence?.taken ?? '',
+    adherence?.missed ?? '',
+    adherence?.percent ?? '',
+    adherence?.missedDoses.join(' ') ?? '',
+    report.from,
+    report.to,
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,110 @@
+/**
+ * Device Tokens
+ * HMAC-signed tokens issued when a device subscribes to push. A token is bound to one
+ * subscription id and proves the caller owns that subscription on later push requests.
+ *
+ * Install tokens use the same signing key: each app install registers once for a random
+ * install id, which rate limiting then uses as the client's key instead of its IP.
+ */
+
+import crypto from 'crypto'
+
+const TOKEN_VERSION = 'v1'
+const INSTALL_TOKEN_VERSION = 'i1' // Never valid as a device token, and the other way round
+
+const INSTALL_ID_PREFIX = 'install_'
+const MAX_TOKEN_LENGTH = 500
+
+// Any long random string. Required in production: tokens signed with a temporary secret
+// stop verifying after a restart. In development one is generated per process.
+const TOKEN_SECRET = process.env.DEVICE_TOKEN_SECRET || ''
+
+let signingKey: Buffer | null = null
+
+function getSigningKey(): Buffer {
+  if (!signingKey) {
+    assertTokenSecret()
+    signingKey = TOKEN_SECRET ? Buffer.from(TOKEN_SECRET) : crypto.randomBytes(32)
+  }
+  return signingKey
+}
+
+/**
+ * Refuse to sign or verify tokens in production without DEVICE_TOKEN_SECRET.
+ * Also checked when the server starts.
+ */
+export function assertTokenSecret(): void {
+  if (!TOKEN_SECRET && process.env.NODE_ENV === 'production') {
+    throw new Error('DEVICE_TOKEN_SECRET must be set in production')
+  }
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(payload).digest('base64url')
+}
+
+/**
+ * Issue a token for a subscription id, e.g. "v1.user_ab12….1718000000000.<signature>"
+ */
+export function issueDeviceToken(subscriptionId: string, now: Date = new Date()): string {
+  const payload = `${TOKEN_VERSION}.${subscriptionId}.${now.getTime()}`
+  return `${payload}.${sign(payload)}`
+}
+
+// The id a token of this version was signed for, or null if the signature does not match
+function readSignedId(token: string | null | undefined, version: string): string | null {
+  if (!token || token.length > MAX_TOKEN_LENGTH) {
+    return null
+  }
+
+  const parts = token.split('.')
+  if (parts.length !== 4 || parts[0] !== version || !/^\d+$/.test(parts[2])) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(parts.slice(0, 3).join('.')))
+  const actual = Buffer.from(parts[3])
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? parts[1] : null
+}
+
+/**
+ * Check that a token was issued by this server for exactly this subscription id
+ */
+export function verifyDeviceToken(token: string | null | undefined, subscriptionId: string): boolean {
+  return readSignedId(token, TOKEN_VERSION) === subscriptionId
+}
+
+/**
+ * Register a new app install: a random install id and the token that proves it
+ */
+export function issueInstallToken(now: Date = new Date()): { installId: string; token: string } {
+  const installId = `${INSTALL_ID_PREFIX}${crypto.randomUUID()}`
+  const payload = `${INSTALL_TOKEN_VERSION}.${installId}.${now.getTime()}`
+  return { installId, token: `${payload}.${sign(payload)}` }
+}
+
+/**
+ * The install id an install token was issued for, or null if it is missing or forged
+ */
+export function verifyInstallToken(token: string | null | undefined): string | null {
+  const installId = readSignedId(token, INSTALL_TOKEN_VERSION)
+  return installId?.startsWith(INSTALL_ID_PREFIX) ? installId : null
+}
+
+/**
+ * Read the device token from an "Authorization: Bearer <token>" header
+ */
+export function getDeviceToken(request: Request): string | null {
+  const authorization = request.headers.get('authorization')
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    return null
+  }
+  return authorization.slice('Bearer '.length).trim()
+}
+
+/**
+ * Read the install token from the X-Install-Token header
+ */
+export function getInstallToken(request: Request): string | null {
+  return request.headers.get('x-install-token')?.trim() || null
+}
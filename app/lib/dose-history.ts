@@ -0,0 +1,255 @@
+/**
+ * Dose History
+ * Encrypted record of taken, missed and snoozed medication doses, plus adherence stats
+ */
+
+import { loadStoredData, saveStoredData } from './stored-data'
+import { expandDoses } from './medication-schedule'
+import { SW_DOSE_STORE, openSwDatabase } from './sw-database'
+import type { DoseEvent, DoseSource, DoseStatus, Medication } from './validation'
+
+export const DOSE_HISTORY_KEY = 'doseHistory'
+
+// Keep enough history for the longest adherence window
+export const HISTORY_RETENTION_DAYS = 90
+
+// A dose with no "taken" event this long after its reminder counts as missed
+export const MISSED_GRACE_MS = 2 * 60 * 60 * 1000
+
+// The in-app "Taken" button applies to the closest reminder within this window
+const TAKEN_MATCH_WINDOW_MS = 12 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function loadDoseEvents(): Promise<DoseEvent[]> {
+  return loadStoredData<DoseEvent[]>(DOSE_HISTORY_KEY)
+}
+
+export async function saveDoseEvents(events: DoseEvent[], now: Date = new Date()): Promise<DoseEvent[]> {
+  const cutoff = now.getTime() - HISTORY_RETENTION_DAYS * DAY_MS
+  const kept = events
+    .filter((event) => Date.parse(event.scheduledTime) >= cutoff)
+    .sort((a, b) => Date.parse(a.scheduledTime) - Date.parse(b.scheduledTime))
+  await saveStoredData(DOSE_HISTORY_KEY, kept)
+  return kept
+}
+
+/**
+ * Add or replace the event for a medication's reminder slot.
+ * Each slot holds one event, so a later "taken" overrides an earlier "snoozed" or "missed".
+ */
+export function upsertDoseEvent(
+  events: DoseEvent[],
+  medicationId: string,
+  scheduledTime: Date,
+  status: DoseStatus,
+  source: DoseSource,
+  actualTime: Date | null = null
+): DoseEvent[] {
+  const scheduledIso = scheduledTime.toISOString()
+  const event: DoseEvent = {
+    id: `${medicationId}_${scheduledTime.getTime()}`,
+    medicationId,
+    scheduledTime: scheduledIso,
+    actualTime: actualTime ? actualTime.toISOString() : null,
+    status,
+    source,
+  }
+
+  const others = events.filter((e) => !(e.medicationId === medicationId && e.scheduledTime === scheduledIso))
+  return [...others, event]
+}
+
+/**
+ * Find the reminder slot a dose taken at `at` belongs to
+ */
+export function findNearestDoseTime(med: Medication, at: Date): Date | null {
+  const candidates = expandDoses(
+    med,
+    new Date(at.getTime() - TAKEN_MATCH_WINDOW_MS),
+    new Date(at.getTime() + TAKEN_MATCH_WINDOW_MS)
+  ).map((dose) => dose.time)
+
+  let nearest: Date | null = null
+  for (const candidate of candidates) {
+    if (!nearest || Math.abs(candidate.getTime() - at.getTime()) < Math.abs(nearest.getTime() - at.getTime())) {
+      nearest = candidate
+    }
+  }
+  return nearest
+}
+
+/**
+ * When dose tracking began: the earliest recorded event of any medication.
+ * Reminders before this point are never counted as missed.
+ */
+function getTrackingStart(events: DoseEvent[]): Date | null {
+  if (events.length === 0) {
+    return null
+  }
+  return new Date(Math.min(...events.map((e) => Date.parse(e.scheduledTime))))
+}
+
+/**
+ * Record a "missed" event for every past reminder slot that has no event yet
+ */
+export function reconcileMissedDoses(medications: Medication[], events: DoseEvent[], now: Date = new Date()): DoseEvent[] {
+  const trackingStart = getTrackingStart(events)
+  if (!trackingStart) {
+    return events
+  }
+
+  const windowStart = Math.max(trackingStart.getTime(), now.getTime() - HISTORY_RETENTION_DAYS * DAY_MS)
+  const to = new Date(now.getTime() - MISSED_GRACE_MS)
+  const recorded = new Set(events.map((e) => `${e.medicationId}_${e.scheduledTime}`))
+
+  let updated = events
+  for (const med of medications) {
+    // Reminders from before the medication was added were never due
+    const from = new Date(med.createdAt ? Math.max(windowStart, Date.parse(med.createdAt)) : windowStart)
+    for (const dose of expandDoses(med, from, to)) {
+      if (!recorded.has(`${med.id}_${dose.time.toISOString()}`)) {
+        updated = upsertDoseEvent(updated, med.id, dose.time, 'missed', 'auto')
+      }
+    }
+  }
+
+  // Snoozed doses that were never taken also become missed
+  return updated.map((e) =>
+    e.status === 'snoozed' && Date.parse(e.scheduledTime) < to.getTime()
+      ? { ...e, status: 'missed' as DoseStatus }
+      : e
+  )
+}
+
+export interface AdherenceStats {
+  taken: number
+  missed: number
+  percent: number | null // null when no doses were due in the range
+  streakDays: number // Consecutive days, ending today, with no missed doses
+  missedDoses: DoseEvent[] // Most recent first
+}
+
+export function calculateAdherence(medicationId: string, events: DoseEvent[], days: number, now: Date = new Date()): AdherenceStats {
+  const medEvents = events.filter((e) => e.medicationId === medicationId)
+  return {
+    ...summarizeDoses(medicationId, medEvents, new Date(now.getTime() - days * DAY_MS)),
+    streakDays: calculateStreak(medEvents, now),
+  }
+}
+
+/**
+ * Taken and missed doses of one medication scheduled from one instant up to another (or any time after)
+ */
+export function summarizeDoses(
+  medicationId: string,
+  events: DoseEvent[],
+  from: Date,
+  to?: Date
+): Omit<AdherenceStats, 'streakDays'> {
+  const inRange = events.filter((e) => {
+    const scheduled = Date.parse(e.scheduledTime)
+    return e.medicationId === medicationId && scheduled >= from.getTime() && (!to || scheduled <= to.getTime())
+  })
+
+  const taken = inRange.filter((e) => e.status === 'taken').length
+  const missedDoses = inRange
+    .filter((e) => e.status === 'missed')
+    .sort((a, b) => Date.parse(b.scheduledTime) - Date.parse(a.scheduledTime))
+  const resolved = taken + missedDoses.length
+
+  return {
+    taken,
+    missed: missedDoses.length,
+    percent: resolved > 0 ? Math.round((taken / resolved) * 100) : null,
+    missedDoses,
+  }
+}
+
+function calculateStreak(medEvents: DoseEvent[], now: Date): number {
+  const byDay = new Map<string, DoseEvent[]>()
+  for (const event of medEvents) {
+    const key = new Date(event.scheduledTime).toDateString()
+    byDay.set(key, [...(byDay.get(key) || []), event])
+  }
+
+  let streak = 0
+  const day = new Date(now)
+  for (let i = 0; i < HISTORY_RETENTION_DAYS; i++) {
+    const dayEvents = byDay.get(day.toDateString())
+    if (!dayEvents || dayEvents.some((e) => e.status === 'missed')) {
+      // Today does not break the streak until a dose is actually missed
+      if (i === 0 && !dayEvents) {
+        day.setDate(day.getDate() - 1)
+        continue
+      }
+      break
+    }
+    if (dayEvents.some((e) => e.status === 'taken')) {
+      streak++
+    }
+    day.setDate(day.getDate() - 1)
+  }
+  return streak
+}
+
+export interface QueuedDoseAction {
+  medicationId: string
+  scheduledTime: string
+  actualTime: string
+  status: DoseStatus
+}
+
+/**
+ * Apply "Mark as Taken" / "Snooze" actions from notifications to the history
+ */
+export function applyQueuedDoseActions(events: DoseEvent[], actions: QueuedDoseAction[], medications: Medication[]): DoseEvent[] {
+  let updated = events
+  for (const action of actions) {
+    if (!medications.some((m) => m.id === action.medicationId) || isNaN(Date.parse(action.scheduledTime))) {
+      continue
+    }
+    // Never let a late snooze overwrite a dose that was already taken
+    const scheduledIso = new Date(action.scheduledTime).toISOString()
+    if (action.status === 'snoozed' && updated.some((e) =>
+      e.medicationId === action.medicationId && e.scheduledTime === scheduledIso && e.status === 'taken')) {
+      continue
+    }
+    updated = upsertDoseEvent(
+      updated,
+      action.medicationId,
+      new Date(action.scheduledTime),
+      action.status,
+      'notification',
+      new Date(action.actualTime)
+    )
+  }
+  return updated
+}
+
+/**
+ * Read and clear dose actions the service worker queued while the app was closed
+ */
+export async function drainQueuedDoseActions(): Promise<QueuedDoseAction[]> {
+  const db = await openSwDatabase()
+  if (!db) {
+    return []
+  }
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(SW_DOSE_STORE, 'readwrite')
+    const store = tx.objectStore(SW_DOSE_STORE)
+    const getAll = store.getAll()
+    getAll.onsuccess = () => {
+      store.clear()
+    }
+    tx.oncomplete = () => {
+      db.close()
+      resolve((getAll.result || []) as QueuedDoseAction[])
+    }
+    tx.onerror = () => {
+      db.close()
+      resolve([])
+    }
+  })
+}
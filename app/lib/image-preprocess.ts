@@ -0,0 +1,235 @@
+/**
+ * Image Preprocessing
+ * Prepares label photos on the device before upload: converts HEIC, puts the image
+ * upright from its EXIF orientation, applies an optional crop, scales it down to a size
+ * that is still sharp enough to read the label, and re-encodes it under a byte budget.
+ */
+
+export type PreprocessStage = 'reading' | 'converting' | 'resizing' | 'compressing'
+
+export const PREPROCESS_STAGE_LABELS: Record<PreprocessStage, string> = {
+  reading: 'Reading photo...',
+  converting: 'Converting HEIC...',
+  resizing: 'Resizing...',
+  compressing: 'Compressing...',
+}
+
+// Region of the upright image to keep, as fractions of its width and height
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PreprocessedImage {
+  data: string // JPEG or WebP data URL
+  width: number
+  height: number
+  bytes: number
+  originalBytes: number
+}
+
+// The model scales anything with a longer edge than this down anyway
+const MAX_DIMENSION = 1568
+const TARGET_BYTES = 800 * 1024
+const START_QUALITY = 0.85
+const MIN_QUALITY = 0.5
+const MIN_DIMENSION = 640 // Smallest size tried when a photo will not fit the budget
+
+type DecodedImage = ImageBitmap | HTMLImageElement
+
+export function isHeic(file: File): boolean {
+  return /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name)
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or 1 when there is none
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1
+  }
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      if (tiff + 8 > view.byteLength) return 1
+      const little = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, little)
+      if (ifd + 2 > view.byteLength) return 1
+      const entries = view.getUint16(ifd, little)
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 10 > view.byteLength) return 1
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little)
+          return orientation >= 1 && orientation <= 8 ? orientation : 1
+        }
+      }
+      return 1
+    }
+    // Stop at the image data; metadata always comes before it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      return 1
+    }
+    offset += 2 + length
+  }
+  return 1
+}
+
+// Browsers that honour CSS image-orientation also draw photos upright on a canvas
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image')
+}
+
+async function decodeImage(blob: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' })
+    } catch {
+      // Fall back to an <img>, which some WebViews decode more formats with
+    }
+  }
+
+  const url = URL.createObjectURL(blob)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+async function convertHeic(file: File): Promise<Blob> {
+  // Loaded on demand: the decoder is large and only iPhone photos need it
+  const { default: heic2any } = await import('heic2any')
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 })
+  return Array.isArray(converted) ? converted[0] : converted
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Could not process the photo on this device')
+  }
+  context.imageSmoothingQuality = 'high'
+  return { canvas, context }
+}
+
+// Draw the image upright, undoing the rotation or mirroring recorded in its EXIF orientation
+function drawUpright(image: DecodedImage, orientation: number): HTMLCanvasElement | DecodedImage {
+  if (orientation === 1) {
+    return image
+  }
+
+  const { width, height } = image
+  const swap = orientation >= 5
+  const { canvas, context } = createCanvas(swap ? height : width, swap ? width : height)
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  }
+  context.setTransform(...transforms[orientation])
+  context.drawImage(image, 0, 0)
+  return canvas
+}
+
+function dataUrlBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1)
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0)
+}
+
+function supportsWebpEncoding(): boolean {
+  return createCanvas(1, 1).canvas.toDataURL('image/webp').startsWith('data:image/webp')
+}
+
+/**
+ * Prepare a photo for upload, reporting each stage as it starts
+ */
+export async function preprocessImage(
+  file: File,
+  crop: CropRect | null = null,
+  onStage: (stage: PreprocessStage) => void = () => {}
+): Promise<PreprocessedImage> {
+  onStage('reading')
+  let blob: Blob = file
+  let image: DecodedImage
+
+  try {
+    image = await decodeImage(blob)
+  } catch (error) {
+    if (!isHeic(file)) {
+      console.error('Could not decode image:', error)
+      throw new Error(`Could not read ${file.name}. Try a JPEG or PNG photo.`)
+    }
+    // Only Safari decodes HEIC natively
+    onStage('converting')
+    try {
+      blob = await convertHeic(file)
+      image = await decodeImage(blob)
+    } catch (heicError) {
+      console.error('Could not convert HEIC image:', heicError)
+      throw new Error(`Could not read ${file.name}. Try taking the photo as a JPEG.`)
+    }
+  }
+
+  onStage('resizing')
+  const orientation = browserAppliesOrientation() || blob.type !== 'image/jpeg'
+    ? 1
+    : readExifOrientation(await blob.arrayBuffer())
+  const upright = drawUpright(image, orientation)
+
+  const region = crop ?? { x: 0, y: 0, width: 1, height: 1 }
+  const sx = Math.round(region.x * upright.width)
+  const sy = Math.round(region.y * upright.height)
+  const sw = Math.max(1, Math.round(region.width * upright.width))
+  const sh = Math.max(1, Math.round(region.height * upright.height))
+
+  let scale = Math.min(1, MAX_DIMENSION / Math.max(sw, sh))
+
+  onStage('compressing')
+  const type = supportsWebpEncoding() ? 'image/webp' : 'image/jpeg'
+
+  for (;;) {
+    const width = Math.max(1, Math.round(sw * scale))
+    const height = Math.max(1, Math.round(sh * scale))
+    const { canvas, context } = createCanvas(width, height)
+    context.drawImage(upright, sx, sy, sw, sh, 0, 0, width, height)
+
+    // Lower the quality first, then the resolution, until the image fits the budget
+    for (let quality = START_QUALITY; quality >= MIN_QUALITY; quality -= 0.1) {
+      const data = canvas.toDataURL(type, quality)
+      const bytes = dataUrlBytes(data)
+      if (bytes <= TARGET_BYTES || (quality - 0.1 < MIN_QUALITY && Math.max(width, height) <= MIN_DIMENSION)) {
+        if ('close' in image) {
+          image.close()
+        }
+        return { data, width, height, bytes, originalBytes: file.size }
+      }
+    }
+    scale *= 0.8
+  }
+}
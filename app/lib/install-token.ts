@@ -0,0 +1,74 @@
+/**
+ * Install Token
+ * Registers this app install with the server and keeps the signed install token it
+ * returns. Analysis and meal requests send it so their rate limits and daily quotas apply
+ * to this device rather than to everyone on the same network. The stored token is checked
+ * with the server once per launch, and the install registers again if it was rejected.
+ * Like push tokens, it is left out of backups.
+ */
+
+import { secureGet, secureSet } from './secure-storage'
+
+export const INSTALL_TOKEN_KEY = 'installToken'
+
+// Shared by concurrent callers so an install only registers, or checks its token, once
+let registration: Promise<string | null> | null = null
+let check: Promise<boolean> | null = null
+
+// The stored token the server accepted since the app started
+let acceptedToken: string | null = null
+
+async function register(): Promise<string | null> {
+  try {
+    const response = await fetch('/api/device', { method: 'POST' })
+    if (!response.ok) {
+      return null
+    }
+    const { installToken } = await response.json()
+    if (typeof installToken !== 'string') {
+      return null
+    }
+    await secureSet(INSTALL_TOKEN_KEY, installToken)
+    acceptedToken = installToken
+    return installToken
+  } catch (error) {
+    console.error('Could not register this install:', error)
+    return null
+  }
+}
+
+// Whether the server still accepts a token. Assumed so when it cannot be asked.
+async function isAccepted(token: string): Promise<boolean> {
+  try {
+    const response = await fetch('/api/device', { headers: { 'X-Install-Token': token } })
+    return response.status !== 401
+  } catch (error) {
+    console.error('Could not check the install token:', error)
+    return true
+  }
+}
+
+/**
+ * Headers identifying this install. Empty when registration failed, in which case the
+ * server falls back to limiting by IP.
+ */
+export async function getInstallHeaders(): Promise<Record<string, string>> {
+  let token = await secureGet<string | null>(INSTALL_TOKEN_KEY, null)
+  if (token && token !== acceptedToken) {
+    check ??= isAccepted(token).finally(() => {
+      check = null
+    })
+    if (await check) {
+      acceptedToken = token
+    } else {
+      token = null
+    }
+  }
+  if (!token) {
+    registration ??= register().finally(() => {
+      registration = null
+    })
+    token = await registration
+  }
+  return token ? { 'X-Install-Token': token } : {}
+}
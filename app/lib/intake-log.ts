@@ -0,0 +1,103 @@
+/**
+ * Intake Log
+ * Encrypted daily diary of analyzed foods and their nutrient totals
+ */
+
+import { loadStoredData, saveStoredData } from './stored-data'
+import type { IntakeEntry, PatientProfile } from './validation'
+import { NUTRIENT_KEYS, type AnalysisResult, type NutrientKey } from './analysis'
+
+export const INTAKE_KEY_PREFIX = 'intakeLog_'
+
+// Nutrients shown against a daily limit on the diary page
+export const TRACKED_NUTRIENTS: NutrientKey[] = ['sodium', 'potassium', 'phosphorus', 'protein', 'addedSugar']
+
+// General guidance used when the care team has not set a target in the profile
+export const DEFAULT_DAILY_LIMITS: Record<NutrientKey, number> = {
+  sodium: 2000, // mg
+  potassium: 3500, // mg
+  phosphorus: 1000, // mg
+  protein: 80, // g
+  addedSugar: 25, // g
+  saturatedFat: 20, // g
+}
+
+/**
+ * Diary date key in the device's local time zone (YYYY-MM-DD)
+ */
+export function getLocalDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function loadIntakeEntries(dateKey: string): Promise<IntakeEntry[]> {
+  return loadStoredData<IntakeEntry[]>(`${INTAKE_KEY_PREFIX}${dateKey}`)
+}
+
+export function saveIntakeEntries(dateKey: string, entries: IntakeEntry[]): Promise<void> {
+  return saveStoredData(`${INTAKE_KEY_PREFIX}${dateKey}`, entries)
+}
+
+/**
+ * Build a diary entry from an analysis result and add it to today's log
+ */
+export async function logServing(
+  result: AnalysisResult,
+  foodName: string,
+  servings: number,
+  now: Date = new Date()
+): Promise<IntakeEntry> {
+  const nutrients = {} as Record<NutrientKey, number | null>
+  for (const key of NUTRIENT_KEYS) {
+    nutrients[key] = result.nutrients[key].amount
+  }
+
+  const entry: IntakeEntry = {
+    id: now.getTime().toString(),
+    foodName: foodName.trim() || result.productName || 'Unnamed food',
+    servings,
+    loggedAt: now.toISOString(),
+    nutrients,
+  }
+
+  const dateKey = getLocalDateKey(now)
+  await saveIntakeEntries(dateKey, [...(await loadIntakeEntries(dateKey)), entry])
+  return entry
+}
+
+export interface IntakeTotals {
+  amounts: Record<NutrientKey, number>
+  incomplete: Record<NutrientKey, boolean> // True when an entry did not list this nutrient
+}
+
+export function calculateTotals(entries: IntakeEntry[]): IntakeTotals {
+  const amounts = {} as Record<NutrientKey, number>
+  const incomplete = {} as Record<NutrientKey, boolean>
+
+  for (const key of NUTRIENT_KEYS) {
+    amounts[key] = 0
+    incomplete[key] = false
+    for (const entry of entries) {
+      const perServing = entry.nutrients[key]
+      if (perServing === null) {
+        incomplete[key] = true
+      } else {
+        amounts[key] += perServing * entry.servings
+      }
+    }
+    amounts[key] = Math.round(amounts[key] * 10) / 10
+  }
+
+  return { amounts, incomplete }
+}
+
+/**
+ * Daily limits, preferring the care team's targets from the patient profile
+ */
+export function getDailyLimits(profile: PatientProfile | null): Record<NutrientKey, number> {
+  return {
+    ...DEFAULT_DAILY_LIMITS,
+    sodium: profile?.sodiumTargetMg ?? DEFAULT_DAILY_LIMITS.sodium,
+    potassium: profile?.potassiumTargetMg ?? DEFAULT_DAILY_LIMITS.potassium,
+    phosphorus: profile?.phosphorusTargetMg ?? DEFAULT_DAILY_LIMITS.phosphorus,
+  }
+}
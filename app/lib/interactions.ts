@@ -0,0 +1,172 @@
+/**
+ * Drug Interaction Rules
+ * Foods and supplements that interfere with immunosuppressant medications
+ * (tacrolimus, cyclosporine, sirolimus). Used by the medications page list and
+ * by /api/analyze to force an "avoid" verdict independently of the model.
+ */
+
+export interface InteractionRule {
+  id: string
+  name: string
+  label: string // Shown in the medications page warning list
+  terms: string[] // Common names, synonyms and Latin names, matched as whole words
+}
+
+export interface InteractionMatch {
+  ruleId: string
+  name: string
+  matchedText: string
+}
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'herbal-supplements',
+    name: 'Herbal supplements',
+    label: 'Herbal supplements',
+    terms: [
+      'herbal supplement',
+      "st john's wort",
+      'st johns wort',
+      'saint johns wort',
+      'hypericum perforatum',
+      'echinacea',
+      'ginseng',
+      'panax ginseng',
+      'ginkgo',
+      'ginkgo biloba',
+      'goldenseal',
+      'hydrastis canadensis',
+    ],
+  },
+  {
+    id: 'green-tea',
+    name: 'Green tea',
+    label: 'Green tea (including matcha)',
+    terms: [
+      'green tea',
+      'green tea extract',
+      'matcha',
+      'camellia sinensis',
+      'egcg',
+      'epigallocatechin gallate',
+    ],
+  },
+  {
+    id: 'herbal-tea',
+    name: 'Herbal tea',
+    label: 'All herbal teas (including Earl Grey)',
+    terms: [
+      'herbal tea',
+      'tisane',
+      'earl grey',
+      'bergamot',
+      'citrus bergamia',
+      'chamomile',
+      'rooibos',
+      'hibiscus tea',
+    ],
+  },
+  {
+    id: 'grapefruit',
+    name: 'Grapefruit',
+    label: 'Grapefruit (including juice)',
+    terms: ['grapefruit', 'grapefruits', 'citrus paradisi', 'citrus x paradisi'],
+  },
+  {
+    id: 'pomegranate',
+    name: 'Pomegranate',
+    label: 'Pomegranate (including juice)',
+    terms: ['pomegranate', 'pomegranates', 'punica granatum'],
+  },
+  {
+    id: 'dragonfruit',
+    name: 'Dragonfruit',
+    label: 'Dragonfruit/pitaya (including juice)',
+    terms: ['dragonfruit', 'dragon fruit', 'pitaya', 'pitahaya', 'hylocereus', 'selenicereus'],
+  },
+  {
+    id: 'jackfruit',
+    name: 'Jackfruit',
+    label: 'Jackfruit',
+    terms: ['jackfruit', 'jack fruit', 'artocarpus heterophyllus'],
+  },
+  {
+    id: 'pomelo',
+    name: 'Pomelo',
+    label: 'Pomelo (including juice)',
+    terms: ['pomelo', 'pomelos', 'pummelo', 'pomello', 'shaddock', 'citrus maxima', 'citrus grandis'],
+  },
+  {
+    id: 'seville-orange',
+    name: 'Seville orange',
+    label: 'Seville oranges (often in marmalade)',
+    terms: [
+      'seville orange',
+      'seville oranges',
+      'bitter orange',
+      'sour orange',
+      'citrus aurantium',
+      'marmalade',
+    ],
+  },
+  {
+    id: 'starfruit',
+    name: 'Starfruit',
+    label: 'Starfruit',
+    terms: ['starfruit', 'star fruit', 'carambola', 'averrhoa carambola'],
+  },
+  {
+    id: 'tangelo',
+    name: 'Tangelo',
+    label: 'Tangelo (grapefruit hybrid)',
+    terms: ['tangelo', 'tangelos', 'minneola', 'ugli fruit', 'citrus x tangelo'],
+  },
+]
+
+/**
+ * Lowercase, strip accents and collapse punctuation so label text like
+ * "St. John’s-Wort" or "Citrus × paradisi" lines up with the rule terms
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/\u00d7/g, ' x ')
+    .replace(/[^a-z0-9']+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Pre-compile one whole-word pattern per rule
+const RULE_PATTERNS = INTERACTION_RULES.map((rule) => ({
+  rule,
+  pattern: new RegExp(
+    `(?:^|\\s)(${rule.terms.map((term) => escapeRegExp(normalize(term))).join('|')})(?=\\s|$)`
+  ),
+}))
+
+/**
+ * Scan ingredient text for foods that interact with immunosuppressants.
+ * Returns at most one match per rule.
+ */
+export function scanForInteractions(text: string): InteractionMatch[] {
+  const normalized = normalize(text)
+  if (!normalized) {
+    return []
+  }
+
+  const matches: InteractionMatch[] = []
+  for (const { rule, pattern } of RULE_PATTERNS) {
+    const match = normalized.match(pattern)
+    if (match) {
+      matches.push({ ruleId: rule.id, name: rule.name, matchedText: match[1] })
+    }
+  }
+  return matches
+}
@@ -0,0 +1,117 @@
+/**
+ * JSON File
+ * Shared plumbing for the server's JSON file stores. The file is re-read whenever another
+ * process has changed it, and every change is made to the latest contents under a lock
+ * file, so processes sharing the disk never overwrite each other's updates.
+ *
+ * Needs a persistent, writable disk. On serverless hosts the filesystem is ephemeral or
+ * read-only; keep the stores in memory there or back them with a database.
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+export interface JsonFile<T> {
+  read(): T // Latest contents; only re-parsed when the file changed
+  // Save the change applied to the latest contents. Returning them unchanged skips the write.
+  update(change: (data: T) => T): T
+}
+
+export interface JsonFileOptions<T> {
+  name: string // For log messages, e.g. "push subscriptions file"
+  empty: () => T // Contents while the file does not exist
+  revive?: (saved: unknown) => T // Check and clean up parsed contents
+}
+
+const LOCK_TIMEOUT_MS = 2000
+// A lock this old was left behind by a process that crashed while holding it
+const STALE_LOCK_MS = 10 * 1000
+const LOCK_RETRY_MS = 5
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4))
+
+function acquireLock(lockPath: string): number {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  for (;;) {
+    try {
+      return fs.openSync(lockPath, 'wx', 0o600)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        fs.unlinkSync(lockPath)
+        continue
+      }
+    } catch {
+      // Released in the meantime
+      continue
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`)
+    }
+    Atomics.wait(sleepCell, 0, 0, LOCK_RETRY_MS)
+  }
+}
+
+function releaseLock(lockPath: string, fd: number): void {
+  fs.closeSync(fd)
+  fs.unlinkSync(lockPath)
+}
+
+export function createJsonFile<T>(filePath: string, options: JsonFileOptions<T>): JsonFile<T> {
+  const lockPath = `${filePath}.lock`
+  let data = options.empty()
+  let loadedVersion: string | null = null
+
+  // Every save renames a new file into place, so the inode changes even when two saves
+  // land within the filesystem's timestamp resolution
+  const versionOf = (stats: fs.Stats) => `${stats.ino}:${stats.mtimeMs}:${stats.size}`
+
+  const load = (): T => {
+    try {
+      const version = versionOf(fs.statSync(filePath))
+      if (version !== loadedVersion) {
+        const saved: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+        data = options.revive ? options.revive(saved) : saved as T
+        loadedVersion = version
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        data = options.empty()
+        loadedVersion = null
+      } else {
+        console.error(`Could not read ${options.name}:`, error)
+      }
+    }
+    return data
+  }
+
+  return {
+    read: load,
+    update: (change) => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      const fd = acquireLock(lockPath)
+      try {
+        const current = load()
+        const next = change(current)
+        if (next === current) {
+          return current
+        }
+        // Write to a temporary file first so a crash never leaves a half-written file
+        const tempPath = `${filePath}.${process.pid}.tmp`
+        fs.writeFileSync(tempPath, JSON.stringify(next), { mode: 0o600 })
+        fs.renameSync(tempPath, filePath)
+        data = next
+        loadedVersion = versionOf(fs.statSync(filePath))
+        return next
+      } finally {
+        releaseLock(lockPath, fd)
+      }
+    },
+  }
+}
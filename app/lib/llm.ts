@@ -0,0 +1,292 @@
+/**
+ * LLM Client
+ * The one place the server talks to Claude: model selection, token limits per task,
+ * request timeouts, retries for overload errors, and the mapping from upstream failures
+ * to HTTP responses. Routes get the client from getLlmClient(), which tests can swap for
+ * createFakeLlmClient() to run every AI route offline.
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import type { TokenUsage } from './usage-ledger'
+
+export type LlmTask = 'analyze' | 'meals'
+
+export type LlmContentBlock = Anthropic.ImageBlockParam | Anthropic.TextBlockParam
+
+export interface LlmRequest {
+  task: LlmTask
+  content: string | LlmContentBlock[]
+  signal?: AbortSignal // Aborts the call, including any retry still waiting
+}
+
+export interface LlmCompletion {
+  text: string
+  usage: TokenUsage
+}
+
+export interface LlmStream {
+  text: AsyncIterable<string> // Text deltas as the model writes them
+  usage(): TokenUsage // Tokens spent so far; final once `text` is exhausted
+  abort(): void
+}
+
+export interface LlmClient {
+  complete(request: LlmRequest): Promise<LlmCompletion>
+  // Resolves once the model has started answering, so connection failures can still
+  // become a normal error response
+  stream(request: LlmRequest): Promise<LlmStream>
+}
+
+export interface LlmConfig {
+  apiKey: string
+  model: string
+  timeoutMs: number // Until the response starts (for streams) or completes
+  maxRetries: number // Extra attempts after a 429, 529 or overloaded error
+}
+
+export interface LlmRetryOptions {
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>
+  random?: () => number
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+const DEFAULT_TIMEOUT_MS = 60 * 1000
+const DEFAULT_MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const MAX_RETRY_AFTER_MS = 10 * 1000 // Longer waits are better reported as busy
+
+const TASKS: Record<LlmTask, { maxTokens: number; unavailable: string; failed: string }> = {
+  analyze: {
+    maxTokens: 3072,
+    unavailable: 'Analysis service unavailable',
+    failed: 'Failed to analyze image. Please try again.',
+  },
+  meals: {
+    maxTokens: 1536,
+    unavailable: 'Meal service unavailable',
+    failed: 'Failed to generate meals. Please try again.',
+  },
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * Configuration from ANTHROPIC_API_KEY, ANTHROPIC_MODEL, LLM_TIMEOUT_MS and LLM_MAX_RETRIES
+ */
+export function getLlmConfig(): LlmConfig {
+  return {
+    apiKey: process.env.ANTHROPIC_API_KEY || '',
+    model: process.env.ANTHROPIC_MODEL || DEFAULT_MODEL,
+    timeoutMs: numberFromEnv('LLM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    maxRetries: numberFromEnv('LLM_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+  }
+}
+
+// 429 rate limits and 529 / in-stream overloaded errors clear up on their own
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof Anthropic.APIError)) {
+    return false
+  }
+  const body = error.error as { error?: { type?: string } } | undefined
+  return error.status === 429 || error.status === 529 || body?.error?.type === 'overloaded_error'
+}
+
+function retryAfterMs(error: unknown): number | null {
+  if (!(error instanceof Anthropic.APIError) || !error.headers) {
+    return null
+  }
+  const seconds = Number(error.headers.get('retry-after'))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null
+}
+
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Anthropic.APIUserAbortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run a call, retrying overload errors with exponential backoff and jitter, or after the
+ * Retry-After the API asked for when that is short enough
+ */
+export async function withLlmRetries<T>(
+  call: () => Promise<T>,
+  maxRetries: number,
+  signal?: AbortSignal,
+  options: LlmRetryOptions = {}
+): Promise<T> {
+  const sleep = options.sleep || sleepUnlessAborted
+  const random = options.random || Math.random
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call()
+    } catch (error) {
+      const retryAfter = retryAfterMs(error)
+      if (attempt >= maxRetries || !isRetryable(error) || signal?.aborted || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+        throw error
+      }
+
+      // Exponential backoff with jitter: ~500ms, ~1s, ...
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+      await sleep(retryAfter ?? delay + random() * delay * 0.5, signal)
+    }
+  }
+}
+
+/**
+ * Client for the Anthropic API
+ */
+export function createAnthropicLlmClient(config: LlmConfig = getLlmConfig(), options: LlmRetryOptions = {}): LlmClient {
+  // Retries are ours, so the SDK's own are turned off
+  const anthropic = new Anthropic({ apiKey: config.apiKey, timeout: config.timeoutMs, maxRetries: 0 })
+
+  const params = (request: LlmRequest) => ({
+    model: config.model,
+    max_tokens: TASKS[request.task].maxTokens,
+    messages: [{ role: 'user' as const, content: request.content }],
+  })
+
+  return {
+    async complete(request) {
+      const response = await withLlmRetries(
+        () => anthropic.messages.create(params(request), { signal: request.signal }),
+        config.maxRetries,
+        request.signal,
+        options
+      )
+      const textBlock = response.content.find((block) => block.type === 'text')
+      return {
+        text: textBlock && textBlock.type === 'text' ? textBlock.text : '',
+        usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+      }
+    },
+
+    async stream(request) {
+      const upstream = await withLlmRetries(
+        async () => {
+          const attempt = anthropic.messages.stream(params(request), { signal: request.signal })
+          await attempt.withResponse()
+          return attempt
+        },
+        config.maxRetries,
+        request.signal,
+        options
+      )
+
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+      async function* text() {
+        for await (const event of upstream) {
+          if (event.type === 'message_start') {
+            usage.inputTokens = event.message.usage.input_tokens
+            usage.outputTokens = event.message.usage.output_tokens
+          } else if (event.type === 'message_delta') {
+            usage.outputTokens = event.usage.output_tokens
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield event.delta.text
+          }
+        }
+      }
+
+      return { text: text(), usage: () => ({ ...usage }), abort: () => upstream.abort() }
+    },
+  }
+}
+
+export interface FakeLlmOptions {
+  chunkSize?: number // Characters per streamed text delta
+  usage?: TokenUsage
+}
+
+/**
+ * Offline stand-in that answers from a fixed string or a function of the request, and
+ * records every request it was given. Throw from `respond` to simulate a failure.
+ */
+export function createFakeLlmClient(
+  respond: string | ((request: LlmRequest) => string),
+  options: FakeLlmOptions = {}
+): LlmClient & { requests: LlmRequest[] } {
+  const chunkSize = options.chunkSize ?? 16
+  const usage = options.usage ?? { inputTokens: 100, outputTokens: 50 }
+  const requests: LlmRequest[] = []
+
+  const answer = (request: LlmRequest) => {
+    requests.push(request)
+    return typeof respond === 'string' ? respond : respond(request)
+  }
+
+  return {
+    requests,
+    async complete(request) {
+      return { text: answer(request), usage: { ...usage } }
+    },
+    async stream(request) {
+      const response = answer(request)
+      let aborted = false
+      async function* text() {
+        for (let i = 0; i < response.length && !aborted && !request.signal?.aborted; i += chunkSize) {
+          yield response.slice(i, i + chunkSize)
+        }
+      }
+      return {
+        text: text(),
+        usage: () => ({ ...usage }),
+        abort: () => {
+          aborted = true
+        },
+      }
+    },
+  }
+}
+
+let client: LlmClient | null = null
+
+export function isLlmConfigured(): boolean {
+  return client !== null || Boolean(getLlmConfig().apiKey)
+}
+
+/**
+ * The shared client, created on first use from the environment
+ */
+export function getLlmClient(): LlmClient {
+  client ??= createAnthropicLlmClient()
+  return client
+}
+
+/**
+ * Swap the client, e.g. for createFakeLlmClient() in tests; null goes back to the API
+ */
+export function setLlmClient(next: LlmClient | null): void {
+  client = next
+}
+
+/**
+ * Map a failed call to a message that is safe to show the user and an HTTP status
+ */
+export function describeLlmError(error: unknown, task: LlmTask): { error: string; status: number } {
+  if (error instanceof Anthropic.APIConnectionTimeoutError) {
+    return { error: 'The service took too long to respond. Please try again.', status: 504 }
+  }
+  if (error instanceof Anthropic.APIError) {
+    if (error.status === 401 || error.status === 403) {
+      return { error: 'Service configuration error', status: 500 }
+    }
+    if (isRetryable(error)) {
+      return { error: 'Service temporarily busy. Please try again.', status: 503 }
+    }
+    // Don't expose detailed API errors to client
+    return { error: TASKS[task].unavailable, status: 503 }
+  }
+  return { error: TASKS[task].failed, status: 500 }
+}
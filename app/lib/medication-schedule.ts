@@ -0,0 +1,261 @@
+/**
+ * Medication Schedules
+ * Expands recurrence rules, start/end dates and taper phases into concrete dose times.
+ * Works in the device's local time, or in an explicit IANA time zone on the server.
+ */
+
+import type { Medication, MedicationSchedule, RecurrenceRule } from './validation'
+
+export interface ScheduledDose {
+  medicationId: string
+  time: Date
+  dosage: string
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Start date for medications saved before schedules existed and without a createdAt
+const LEGACY_START_DATE = '2000-01-01'
+
+/**
+ * The medication's schedule, treating older medications without one as "every day"
+ */
+export function getMedicationSchedule(med: Medication): MedicationSchedule {
+  if (med.schedule) {
+    return med.schedule
+  }
+
+  return {
+    recurrence: { type: 'daily' },
+    startDate: med.createdAt ? toDateKey(new Date(med.createdAt)) : LEGACY_START_DATE,
+    endDate: null,
+    taperPhases: [],
+  }
+}
+
+export function createDefaultSchedule(now: Date = new Date()): MedicationSchedule {
+  return {
+    recurrence: { type: 'daily' },
+    startDate: toDateKey(now),
+    endDate: null,
+    taperPhases: [],
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant, in local time or the given time zone
+ */
+export function toDateKey(date: Date, timeZone?: string): string {
+  if (!timeZone) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  }
+
+  const parts = getZonedParts(date, timeZone)
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`
+}
+
+function dateKeyToUtc(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(dateKeyToUtc(dateKey) + days * DAY_MS)
+  return date.toISOString().split('T')[0]
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((dateKeyToUtc(toKey) - dateKeyToUtc(fromKey)) / DAY_MS)
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant a wall-clock time occurs on a calendar date
+ */
+function toInstant(dateKey: string, time: string, timeZone?: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hours, minutes, 0, 0)
+  }
+
+  // Guess using the offset at the naive UTC time, then correct once for DST transitions
+  const naive = Date.UTC(year, month - 1, day, hours, minutes)
+  const offset = getTimeZoneOffsetMs(new Date(naive), timeZone)
+  const corrected = getTimeZoneOffsetMs(new Date(naive - offset), timeZone)
+  return new Date(naive - corrected)
+}
+
+function matchesRecurrence(recurrence: RecurrenceRule, startDate: string, dateKey: string): boolean {
+  switch (recurrence.type) {
+    case 'daily':
+      return true
+    case 'interval':
+      return daysBetween(startDate, dateKey) % recurrence.everyDays === 0
+    case 'weekdays':
+      return recurrence.days.includes(new Date(dateKeyToUtc(dateKey)).getUTCDay())
+  }
+}
+
+/**
+ * Whether the medication is taken on a calendar date
+ */
+export function isDoseDay(schedule: MedicationSchedule, dateKey: string): boolean {
+  if (dateKey < schedule.startDate) {
+    return false
+  }
+  if (schedule.endDate && dateKey > schedule.endDate) {
+    return false
+  }
+  return matchesRecurrence(schedule.recurrence, schedule.startDate, dateKey)
+}
+
+/**
+ * Dosage on a calendar date, following the taper phases when there are any
+ */
+export function getDosageOn(med: Medication, dateKey: string): string {
+  const schedule = getMedicationSchedule(med)
+  let dayIndex = daysBetween(schedule.startDate, dateKey)
+
+  for (const phase of schedule.taperPhases) {
+    if (dayIndex < phase.days) {
+      return phase.dosage
+    }
+    dayIndex -= phase.days
+  }
+  return med.dosage
+}
+
+export interface DosagePeriod {
+  dosage: string
+  start: string // YYYY-MM-DD
+  end: string | null // YYYY-MM-DD, inclusive; null when the dosage continues
+}
+
+/**
+ * The dosages a medication is taken at over its schedule: each taper phase, then the
+ * regular dosage. Periods after the end date are left out.
+ */
+export function getDosagePeriods(med: Medication): DosagePeriod[] {
+  const schedule = getMedicationSchedule(med)
+  const periods: DosagePeriod[] = []
+  let start = schedule.startDate
+
+  for (const phase of schedule.taperPhases) {
+    const end = addDays(start, phase.days - 1)
+    periods.push({ dosage: phase.dosage, start, end })
+    start = addDays(end, 1)
+  }
+  periods.push({ dosage: med.dosage, start, end: null })
+
+  return periods
+    .filter((period) => !schedule.endDate || period.start <= schedule.endDate)
+    .map((period) => schedule.endDate && (!period.end || period.end > schedule.endDate)
+      ? { ...period, end: schedule.endDate }
+      : period)
+}
+
+/**
+ * Expand a medication's schedule into concrete doses in [from, to)
+ */
+export function expandDoses(med: Medication, from: Date, to: Date, timeZone?: string): ScheduledDose[] {
+  const schedule = getMedicationSchedule(med)
+  const doses: ScheduledDose[] = []
+
+  // Pad by a day on each side so time zone offsets cannot drop a dose at the edges
+  const lastKey = addDays(toDateKey(to, timeZone), 1)
+  let dateKey = addDays(toDateKey(from, timeZone), -1)
+  if (dateKey < schedule.startDate) {
+    dateKey = schedule.startDate
+  }
+
+  while (dateKey <= lastKey && (!schedule.endDate || dateKey <= schedule.endDate)) {
+    if (isDoseDay(schedule, dateKey)) {
+      const dosage = getDosageOn(med, dateKey)
+      for (const time of med.times) {
+        const doseTime = toInstant(dateKey, time, timeZone)
+        if (doseTime >= from && doseTime < to) {
+          doses.push({ medicationId: med.id, time: doseTime, dosage })
+        }
+      }
+    }
+    dateKey = addDays(dateKey, 1)
+  }
+
+  return doses.sort((a, b) => a.time.getTime() - b.time.getTime())
+}
+
+/**
+ * Short human-readable description, e.g. "Every 2 days until Mar 14"
+ */
+export function describeSchedule(schedule: MedicationSchedule): string {
+  let description: string
+  switch (schedule.recurrence.type) {
+    case 'daily':
+      description = 'Every day'
+      break
+    case 'interval':
+      description = schedule.recurrence.everyDays === 2 ? 'Every other day' : `Every ${schedule.recurrence.everyDays} days`
+      break
+    case 'weekdays':
+      description = [...schedule.recurrence.days].sort().map((d) => WEEKDAY_LABELS[d]).join(', ')
+      break
+  }
+
+  if (schedule.taperPhases.length > 0) {
+    description += `, tapering over ${schedule.taperPhases.reduce((sum, p) => sum + p.days, 0)} days`
+  }
+
+  const formatKey = (key: string) =>
+    new Date(dateKeyToUtc(key)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+  const today = toDateKey(new Date())
+  if (schedule.startDate > today) {
+    description += ` from ${formatKey(schedule.startDate)}`
+  }
+  if (schedule.endDate) {
+    description += ` until ${formatKey(schedule.endDate)}`
+  }
+
+  return description
+}
@@ -0,0 +1,105 @@
+/**
+ * Patient Profile
+ * Helpers for the per-patient profile used to personalize analysis and meal prompts
+ */
+
+import type { OrganType, PatientProfile } from './validation'
+
+export const PROFILE_STORAGE_KEY = 'patientProfile'
+
+export type TransplantPhase = 'early' | 'late'
+
+// Early post-transplant covers the first 3 months
+const EARLY_PHASE_DAYS = 90
+
+export const DEFAULT_PROFILE: PatientProfile = {
+  transplantDate: null,
+  organType: 'kidney',
+  immunosuppressants: [],
+  sodiumTargetMg: null,
+  potassiumTargetMg: null,
+  phosphorusTargetMg: null,
+  hasDiabetes: false,
+  allergies: [],
+}
+
+export const ORGAN_LABELS: Record<OrganType, string> = {
+  'kidney': 'Kidney',
+  'kidney-pancreas': 'Kidney-pancreas',
+  'liver': 'Liver',
+  'heart': 'Heart',
+  'lung': 'Lung',
+  'other': 'Other',
+}
+
+// Generic and brand names used to pre-select immunosuppressants from the medication list
+const IMMUNOSUPPRESSANT_NAMES = [
+  'tacrolimus', 'prograf', 'envarsus', 'astagraf',
+  'cyclosporine', 'ciclosporin', 'neoral', 'sandimmune', 'gengraf',
+  'mycophenolate', 'cellcept', 'myfortic',
+  'sirolimus', 'rapamune',
+  'everolimus', 'zortress',
+  'azathioprine', 'imuran',
+  'belatacept', 'nulojix',
+  'prednisone', 'prednisolone',
+]
+
+export function isImmunosuppressant(medicationName: string): boolean {
+  const name = medicationName.toLowerCase()
+  return IMMUNOSUPPRESSANT_NAMES.some((known) => name.includes(known))
+}
+
+/**
+ * Work out which post-transplant phase applies, or null if no transplant date is set
+ */
+export function getTransplantPhase(profile: PatientProfile, now: Date = new Date()): TransplantPhase | null {
+  if (!profile.transplantDate) {
+    return null
+  }
+
+  const transplantTime = Date.parse(`${profile.transplantDate}T00:00:00Z`)
+  const daysSince = (now.getTime() - transplantTime) / (24 * 60 * 60 * 1000)
+  return daysSince < EARLY_PHASE_DAYS ? 'early' : 'late'
+}
+
+/**
+ * Describe the patient for inclusion in a model prompt.
+ * The profile must already have passed validatePatientProfile.
+ */
+export function buildProfilePrompt(profile: PatientProfile, now: Date = new Date()): string {
+  const lines: string[] = []
+
+  lines.push(`- Organ: ${ORGAN_LABELS[profile.organType]} transplant recipient`)
+
+  const phase = getTransplantPhase(profile, now)
+  if (phase === 'early') {
+    lines.push('- Phase: Early post-transplant (0-3 months) - immunosuppression is highest and the body is healing')
+  } else if (phase === 'late') {
+    lines.push('- Phase: Late post-transplant (3+ months) - maintenance phase')
+  }
+
+  if (profile.immunosuppressants.length > 0) {
+    lines.push(`- Current immunosuppressants: ${profile.immunosuppressants.join(', ')}`)
+  }
+
+  if (profile.sodiumTargetMg) {
+    lines.push(`- Daily sodium target from care team: ${profile.sodiumTargetMg}mg`)
+  }
+  if (profile.potassiumTargetMg) {
+    lines.push(`- Daily potassium target from care team: ${profile.potassiumTargetMg}mg`)
+  }
+  if (profile.phosphorusTargetMg) {
+    lines.push(`- Daily phosphorus target from care team: ${profile.phosphorusTargetMg}mg`)
+  }
+
+  lines.push(profile.hasDiabetes
+    ? '- Has diabetes - treat added sugars and refined carbohydrates as a serious concern'
+    : '- No diabetes reported')
+
+  if (profile.allergies.length > 0) {
+    lines.push(`- Food allergies: ${profile.allergies.join(', ')} - any food containing these must be avoided`)
+  }
+
+  return `PATIENT PROFILE (from the patient's care plan - tailor your assessment to this patient):
+${lines.join('\n')}`
+}
@@ -0,0 +1,126 @@
+/**
+ * Minimal PDF Writer
+ * Lays out lines of text on US Letter pages using the built-in Helvetica fonts, so reports
+ * can be saved as PDF on the device without a PDF library or a server round trip.
+ * Text outside Latin-1 is replaced, since the standard fonts cannot show it.
+ */
+
+export interface PdfLine {
+  text: string
+  size?: number // Points, default 10
+  bold?: boolean
+  spaceBefore?: number // Extra points above the line
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const DEFAULT_SIZE = 10
+const LINE_HEIGHT = 1.4
+
+// Average Helvetica glyph width as a share of the font size; close enough for wrapping
+const AVERAGE_CHAR_WIDTH = 0.52
+
+const REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '•': '·',
+}
+
+function toLatin1(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, (char) => REPLACEMENTS[char] ?? '?')
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, '\\$&')
+}
+
+function wrap(text: string, size: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_CHAR_WIDTH))
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(' ')) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current)
+      current = ''
+    }
+    // Break words longer than a whole line
+    let rest = word
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars))
+      rest = rest.slice(maxChars)
+    }
+    current = current ? `${current} ${rest}` : rest
+  }
+  lines.push(current)
+  return lines
+}
+
+/**
+ * Render lines of text into a PDF file, adding pages and page numbers as needed
+ */
+export function createTextPdf(lines: PdfLine[], footer: string = ''): Blob {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE
+    const font = line.bold ? 'F2' : 'F1'
+    y -= line.spaceBefore ?? 0
+
+    for (const text of wrap(toLatin1(line.text), size)) {
+      y -= size * LINE_HEIGHT
+      if (y < MARGIN + DEFAULT_SIZE * 2) {
+        pages.push([])
+        y = PAGE_HEIGHT - MARGIN - size * LINE_HEIGHT
+      }
+      pages[pages.length - 1].push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapePdfString(text)}) Tj ET`)
+    }
+  }
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '', // Pages, filled in once the page objects are numbered
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+
+  const pageRefs: string[] = []
+  pages.forEach((commands, index) => {
+    const footerText = escapePdfString(toLatin1(`${footer}${footer ? '  ·  ' : ''}Page ${index + 1} of ${pages.length}`))
+    const content = [...commands, `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${footerText}) Tj ET`].join('\n')
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    const contentRef = objects.length
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+    )
+    pageRefs.push(`${objects.length} 0 R`)
+  })
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`
+
+  // Every character is Latin-1, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  const bytes = new Uint8Array(pdf.length)
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i)
+  }
+  return new Blob([bytes], { type: 'application/pdf' })
+}
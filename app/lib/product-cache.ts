@@ -0,0 +1,80 @@
+/**
+ * Product Cache
+ * Encrypted on-device store of completed analyses keyed by product barcode, so a product
+ * that was already checked can be shown again without another /api/analyze call
+ */
+
+import { loadStoredData, saveStoredData } from './stored-data'
+import type { AnalysisResult } from './analysis'
+import type { CachedProduct } from './validation'
+
+export const PRODUCT_CACHE_KEY = 'productCache'
+
+// Least recently analyzed products are dropped past this
+const MAX_CACHED_PRODUCTS = 200
+
+function hasValidCheckDigit(digits: string): boolean {
+  // GS1 check digit: weights alternate 3 and 1 from the rightmost data digit
+  let sum = 0
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1])
+}
+
+// Zero-suppressed UPC-E to its 12-digit UPC-A form; the check digit is shared
+function expandUpcE(code: string): string {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code
+  const body =
+    d6 <= '2' ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+      : d6 === '3' ? `${d1}${d2}${d3}00000${d4}${d5}`
+        : d6 === '4' ? `${d1}${d2}${d3}${d4}00000${d5}`
+          : `${d1}${d2}${d3}${d4}${d5}0000${d6}`
+  return `${system}${body}${check}`
+}
+
+/**
+ * Normalize a scanned or typed UPC/EAN code, or return null if it is not a valid one.
+ * UPC-A and UPC-E codes become EAN-13 so every scan of a product shares a cache entry.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  let digits = raw.replace(/[\s-]/g, '')
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits)) {
+    return null
+  }
+  // Eight digits is EAN-8 if the check digit fits, otherwise try it as UPC-E
+  if (digits.length === 8 && !hasValidCheckDigit(digits) && /^[01]/.test(digits)) {
+    digits = expandUpcE(digits)
+  }
+  if (!hasValidCheckDigit(digits)) {
+    return null
+  }
+  return digits.length === 12 ? `0${digits}` : digits
+}
+
+export function loadProductCache(): Promise<CachedProduct[]> {
+  return loadStoredData<CachedProduct[]>(PRODUCT_CACHE_KEY)
+}
+
+export async function getCachedProduct(barcode: string): Promise<CachedProduct | null> {
+  return (await loadProductCache()).find((product) => product.barcode === barcode) ?? null
+}
+
+/**
+ * Store an analysis for a barcode, replacing any earlier analysis of the same product
+ */
+export async function saveCachedProduct(
+  barcode: string,
+  result: AnalysisResult,
+  now: Date = new Date()
+): Promise<CachedProduct> {
+  const entry: CachedProduct = { barcode, result, analyzedAt: now.toISOString() }
+  const others = (await loadProductCache()).filter((product) => product.barcode !== barcode)
+  await saveStoredData(PRODUCT_CACHE_KEY, [entry, ...others].slice(0, MAX_CACHED_PRODUCTS))
+  return entry
+}
+
+export async function removeCachedProduct(barcode: string): Promise<void> {
+  const remaining = (await loadProductCache()).filter((product) => product.barcode !== barcode)
+  await saveStoredData(PRODUCT_CACHE_KEY, remaining)
+}
@@ -1,4 +1,13 @@
-import webPush, { PushSubscription } from 'web-push'
+import crypto from 'crypto'
+import webPush, { PushSubscription, WebPushError } from 'web-push'
+import { moveReminderSchedule, removeReminderSchedule } from './reminder-store'
+import {
+  createFileSubscriptionStore,
+  createMemorySubscriptionStore,
+  detectPlatform,
+  type SubscriptionRecord,
+  type SubscriptionStore,
+} from './subscription-store'
 
 // In production, store VAPID keys in environment variables
 // Generate with: npx web-push generate-vapid-keys
@@ -13,26 +22,88 @@ if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
   )
 }
 
-// In-memory store for subscriptions (use a database in production)
-const subscriptions = new Map<string, PushSubscription>()
+// Subscriptions are kept in a JSON file by default so they survive restarts and deploys.
+// Set PUSH_SUBSCRIPTION_STORE=memory to keep them in memory only.
+let subscriptionStore: SubscriptionStore = process.env.PUSH_SUBSCRIPTION_STORE === 'memory'
+  ? createMemorySubscriptionStore()
+  : createFileSubscriptionStore(process.env.PUSH_SUBSCRIPTIONS_FILE || undefined)
 
-export function saveSubscription(userId: string, subscription: PushSubscription): void {
-  subscriptions.set(userId, subscription)
+// Only rewrite lastUsedAt when it is older than this, so frequent reminder checks don't thrash the store
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000
+
+/**
+ * Swap the storage backend, e.g. for an in-memory store in tests
+ */
+export function setSubscriptionStore(store: SubscriptionStore): void {
+  subscriptionStore = store
+}
+
+/**
+ * Subscription id for a push endpoint: a SHA-256 hash, so the endpoint URL itself is not
+ * used as a key
+ */
+export function generateSecureIdFromEndpoint(endpoint: string): string {
+  const hash = crypto.createHash('sha256').update(endpoint).digest('hex')
+  return `user_${hash.substring(0, 16)}`
+}
+
+export function saveSubscription(userId: string, subscription: PushSubscription, userAgent?: string | null): void {
+  const now = new Date().toISOString()
+  const existing = subscriptionStore.get(userId)
+  subscriptionStore.set(userId, {
+    subscription,
+    createdAt: existing?.createdAt || now,
+    lastUsedAt: now,
+    platform: userAgent ? detectPlatform(userAgent) : existing?.platform || 'unknown',
+  })
 }
 
 export function getSubscription(userId: string): PushSubscription | undefined {
-  return subscriptions.get(userId)
+  const record = subscriptionStore.get(userId)
+  if (!record) {
+    return undefined
+  }
+
+  const now = Date.now()
+  if (now - Date.parse(record.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    subscriptionStore.set(userId, { ...record, lastUsedAt: new Date(now).toISOString() })
+  }
+  return record.subscription
+}
+
+/**
+ * Move a subscription to a new id after the browser rotated its endpoint.
+ * Keeps the original createdAt and platform, and carries over the synced reminder schedule.
+ * Returns false when there was no subscription under oldId; the new one is saved either way.
+ */
+export function replaceSubscription(oldId: string, newId: string, subscription: PushSubscription, userAgent?: string | null): boolean {
+  const existing = subscriptionStore.get(oldId)
+  const now = new Date().toISOString()
+  subscriptionStore.replace(oldId, newId, {
+    subscription,
+    createdAt: existing?.createdAt || now,
+    lastUsedAt: now,
+    platform: userAgent ? detectPlatform(userAgent) : existing?.platform || 'unknown',
+  })
+  if (existing && oldId !== newId) {
+    moveReminderSchedule(oldId, newId)
+  }
+  return Boolean(existing)
+}
+
+export function getSubscriptionRecord(userId: string): SubscriptionRecord | undefined {
+  return subscriptionStore.get(userId)
 }
 
 export function removeSubscription(userId: string): void {
-  subscriptions.delete(userId)
+  subscriptionStore.delete(userId)
 }
 
 export function getAllSubscriptions(): Map<string, PushSubscription> {
-  return subscriptions
+  return new Map(subscriptionStore.entries().map(([id, record]) => [id, record.subscription]))
 }
 
-interface NotificationPayload {
+export interface NotificationPayload {
   title: string
   body: string
   icon?: string
@@ -41,21 +112,116 @@ interface NotificationPayload {
   data?: Record<string, unknown>
 }
 
+export type PushSendStatus =
+  | 'delivered'
+  | 'expired' // Push service says the subscription is gone (404/410); it has been removed
+  | 'rate-limited' // 429 that persisted through every retry; try again after retryAfterSeconds
+  | 'payload-too-large' // 413; retrying the same payload will not help
+  | 'rejected' // Any other 4xx, e.g. 400/401/403 for a malformed request or bad VAPID credentials
+  | 'transient' // Network error or 5xx that persisted through every retry
+  | 'not-configured' // VAPID keys are missing on the server
+
+export interface PushSendResult {
+  status: PushSendStatus
+  statusCode?: number
+  retryAfterSeconds?: number
+}
+
+export interface PushSendOptions {
+  maxRetries?: number // Extra attempts for transient and rate-limited failures
+  sleep?: (ms: number) => Promise<void>
+}
+
+const DEFAULT_MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+// A longer Retry-After is left to the caller rather than waited out mid-request
+const MAX_RETRY_AFTER_SECONDS = 10
+
 export async function sendPushNotification(
   subscription: PushSubscription,
-  payload: NotificationPayload
-): Promise<boolean> {
+  payload: NotificationPayload,
+  options: PushSendOptions = {}
+): Promise<PushSendResult> {
   if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
     console.error('VAPID keys not configured')
-    return false
+    return { status: 'not-configured' }
   }
 
-  try {
-    await webPush.sendNotification(subscription, JSON.stringify(payload))
-    return true
-  } catch (error) {
-    console.error('Error sending push notification:', error)
-    return false
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+  const sleep = options.sleep || ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await webPush.sendNotification(subscription, JSON.stringify(payload))
+      return { status: 'delivered' }
+    } catch (error) {
+      const result = classifySendError(error)
+
+      if (result.status === 'expired') {
+        removeSubscriptionsByEndpoint(subscription.endpoint)
+        return result
+      }
+
+      const retryAfter = result.retryAfterSeconds ?? 0
+      const retryable = result.status === 'transient' ||
+        (result.status === 'rate-limited' && retryAfter <= MAX_RETRY_AFTER_SECONDS)
+      if (!retryable || attempt >= maxRetries) {
+        console.error(`Push notification failed (${result.status}):`, error)
+        return result
+      }
+
+      // Exponential backoff with jitter: ~500ms, ~1s, ..., or as long as the push service asked
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+      await sleep(Math.max(retryAfter * 1000, delay + Math.random() * delay * 0.5))
+    }
+  }
+}
+
+function classifySendError(error: unknown): PushSendResult {
+  if (!(error instanceof WebPushError)) {
+    // No response at all, e.g. DNS or connection failure
+    return { status: 'transient' }
+  }
+
+  const statusCode = error.statusCode
+  if (statusCode === 404 || statusCode === 410) {
+    return { status: 'expired', statusCode }
+  }
+  if (statusCode === 413) {
+    return { status: 'payload-too-large', statusCode }
+  }
+  if (statusCode === 429) {
+    const retryAfter = Number(getHeader(error.headers, 'retry-after'))
+    return {
+      status: 'rate-limited',
+      statusCode,
+      retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+    }
+  }
+  // Only server errors are worth retrying; the push service will refuse the same request again
+  if (statusCode < 500) {
+    return { status: 'rejected', statusCode }
+  }
+  return { status: 'transient', statusCode }
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined
+  }
+  const value = (headers as Record<string, unknown>)[name]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Drop every stored subscription (and synced reminder schedule) for an endpoint the push service rejected
+ */
+function removeSubscriptionsByEndpoint(endpoint: string): void {
+  for (const [id, record] of subscriptionStore.entries()) {
+    if (record.subscription.endpoint === endpoint) {
+      subscriptionStore.delete(id)
+      removeReminderSchedule(id)
+    }
   }
 }
 
@@ -1,88 +1,318 @@
-// Simple in-memory rate limiter
-// For production, consider using Redis or a dedicated rate limiting service
+/**
+ * Rate Limiting
+ * Sliding-window limits for each named policy. Counts live in a pluggable store: an
+ * in-memory map by default, or a JSON file that survives restarts. The file suits a single
+ * host with modest traffic; every counted request rewrites it under a lock. Instances on
+ * separate hosts need a store backed by a shared database.
+ *
+ * The sliding window is approximated from two fixed windows: the previous window's count
+ * is weighted by how much of it still overlaps the last windowMs.
+ *
+ * Clients are keyed by their signed install id where they send one, with a looser limit
+ * per IP behind it, so one abusive client cannot use up the quota of everyone sharing
+ * its network.
+ */
 
-interface RateLimitEntry {
-  count: number
-  resetTime: number
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { getClientIp } from './client-ip'
+import { getInstallToken, verifyInstallToken } from './device-token'
+import { createJsonFile } from './json-file'
+
+export interface RateLimitPolicy {
+  limit: number // Requests allowed per window
+  windowMs: number
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>()
+export const RATE_LIMIT_POLICIES = {
+  // Per install, or per IP for clients without an install id
+  analyze: { limit: 20, windowMs: 60 * 1000 },
+  meals: { limit: 30, windowMs: 60 * 1000 },
+  // Per IP across all installs behind it (households, clinics, mobile carriers)
+  'analyze-ip': { limit: 60, windowMs: 60 * 1000 },
+  'meals-ip': { limit: 90, windowMs: 60 * 1000 },
+  // New install ids per IP, so fresh ids cannot be minted to dodge the limits above
+  'device-register': { limit: 10, windowMs: 60 * 60 * 1000 },
+  // Install token checks per IP; the app checks its token once per launch
+  'device-check': { limit: 30, windowMs: 60 * 1000 },
+  // Per IP, before the device token is checked
+  'push-send': { limit: 30, windowMs: 60 * 1000 },
+  // Per subscription
+  'push-send-device': { limit: 5, windowMs: 10 * 60 * 1000 },
+  'push-subscribe': { limit: 10, windowMs: 60 * 1000 },
+  // Per IP; the medications page syncs the schedule after every edit
+  'push-schedule': { limit: 30, windowMs: 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>
 
-// Clean up old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key)
-    }
-  }
-}, 5 * 60 * 1000)
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+// Policies keyed by install id, and the per-IP policy checked alongside each
+const IP_POLICIES = {
+  analyze: 'analyze-ip',
+  meals: 'meals-ip',
+} satisfies Partial<Record<RateLimitPolicyName, RateLimitPolicyName>>
+
+export type ClientRateLimitPolicyName = keyof typeof IP_POLICIES
+
+export interface RateLimitEntry {
+  windowStart: number // Start of the current fixed window (ms)
+  count: number // Requests in the current window
+  previousCount: number // Requests in the window before it
+  expiresAt: number // After this the entry can no longer affect a decision
+}
 
-export interface RateLimitConfig {
-  maxRequests: number // Maximum requests allowed in the window
-  windowMs: number // Time window in milliseconds
+export interface RateLimitStore {
+  get(key: string): RateLimitEntry | undefined
+  // Replace an entry with change(entry) in one step, so concurrent requests are all counted.
+  // Returning the entry unchanged leaves it as it is.
+  update(key: string, change: (entry: RateLimitEntry | undefined) => RateLimitEntry | undefined): void
+  prune(now: number): void // Drop expired entries
 }
 
 export interface RateLimitResult {
   success: boolean
+  policy: RateLimitPolicyName
+  limit: number
   remaining: number
-  resetTime: number
-}
-
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig
-): RateLimitResult {
-  const now = Date.now()
-  const key = identifier
-
-  const entry = rateLimitStore.get(key)
-
-  // If no entry or window has expired, create new entry
-  if (!entry || entry.resetTime < now) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    })
-    return {
-      success: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs,
-    }
+  resetTime: number // When the next request will be allowed if denied, otherwise when the current window ends (ms)
+}
+
+export const DEFAULT_RATE_LIMIT_FILE = path.join(process.cwd(), '.data', 'rate-limits.json')
+
+// Expired entries are swept at most this often
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>()
+
+  return {
+    get: (key) => entries.get(key),
+    update: (key, change) => {
+      const entry = change(entries.get(key))
+      if (entry) {
+        entries.set(key, entry)
+      }
+    },
+    prune: (now) => {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key)
+        }
+      }
+    },
   }
+}
 
-  // Check if limit exceeded
-  if (entry.count >= config.maxRequests) {
-    return {
-      success: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-    }
+/**
+ * Counts kept in a JSON file, shared by every process on the same disk
+ */
+export function createFileRateLimitStore(filePath: string = DEFAULT_RATE_LIMIT_FILE): RateLimitStore {
+  const file = createJsonFile<Record<string, RateLimitEntry>>(filePath, {
+    name: 'rate limit file',
+    empty: () => ({}),
+    revive: (saved) => Object.fromEntries(Object.entries(saved as Record<string, RateLimitEntry>).filter(
+      ([, entry]) => entry && typeof entry.windowStart === 'number' && typeof entry.count === 'number'
+    )),
+  })
+
+  return {
+    get: (key) => file.read()[key],
+    update: (key, change) => {
+      try {
+        file.update((entries) => {
+          const entry = change(entries[key])
+          return entry && entry !== entries[key] ? { ...entries, [key]: entry } : entries
+        })
+      } catch (error) {
+        // Decide from the last counts read rather than failing the request
+        console.error('Could not update rate limit file:', error)
+        change(file.read()[key])
+      }
+    },
+    prune: (now) => {
+      const expired = (entries: Record<string, RateLimitEntry>) =>
+        Object.values(entries).some((entry) => entry.expiresAt <= now)
+      if (!expired(file.read())) {
+        return
+      }
+      try {
+        file.update((entries) => expired(entries)
+          ? Object.fromEntries(Object.entries(entries).filter(([, entry]) => entry.expiresAt > now))
+          : entries)
+      } catch (error) {
+        console.error('Could not prune rate limit file:', error)
+      }
+    },
+  }
+}
+
+// Earliest time the estimated count leaves room for one more request
+function nextAllowedAt(policy: RateLimitPolicy, windowStart: number, count: number, previousCount: number): number {
+  const { limit, windowMs } = policy
+  if (count + 1 > limit) {
+    // Only possible once this window becomes the previous one and has partly slid out
+    return windowStart + windowMs + windowMs * (1 - (limit - 1) / count)
+  }
+  return windowStart + windowMs * (1 - (limit - 1 - count) / previousCount)
+}
+
+/**
+ * Rate limiter over a store. The clock can be replaced in tests.
+ */
+export function createRateLimiter(store: RateLimitStore, clock: () => number = Date.now) {
+  let lastPrune = clock()
+
+  return {
+    check(policyName: RateLimitPolicyName, identifier: string): RateLimitResult {
+      const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName]
+      const now = clock()
+
+      if (now - lastPrune >= PRUNE_INTERVAL_MS) {
+        store.prune(now)
+        lastPrune = now
+      }
+
+      const key = `${policyName}:${identifier}`
+      const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs
+      const windowEnd = windowStart + policy.windowMs
+      let result: RateLimitResult | undefined
+
+      store.update(key, (saved) => {
+        let count = 0
+        let previousCount = 0
+        if (saved?.windowStart === windowStart) {
+          count = saved.count
+          previousCount = saved.previousCount
+        } else if (saved?.windowStart === windowStart - policy.windowMs) {
+          previousCount = saved.count
+        }
+
+        const previousWeight = 1 - (now - windowStart) / policy.windowMs
+        const used = previousCount * previousWeight + count
+
+        if (used + 1 > policy.limit) {
+          result = {
+            success: false,
+            policy: policyName,
+            limit: policy.limit,
+            remaining: 0,
+            resetTime: Math.ceil(nextAllowedAt(policy, windowStart, count, previousCount)),
+          }
+          return saved
+        }
+
+        result = {
+          success: true,
+          policy: policyName,
+          limit: policy.limit,
+          remaining: Math.max(0, Math.floor(policy.limit - used - 1)),
+          resetTime: windowEnd,
+        }
+        return { windowStart, count: count + 1, previousCount, expiresAt: windowEnd + policy.windowMs }
+      })
+
+      return result!
+    },
   }
+}
+
+// Counts are kept in memory by default. Set RATE_LIMIT_STORE=file to keep them in a JSON
+// file on a single host, so they survive restarts.
+let limiter = createRateLimiter(process.env.RATE_LIMIT_STORE === 'file'
+  ? createFileRateLimitStore(process.env.RATE_LIMIT_FILE || undefined)
+  : createMemoryRateLimitStore())
 
-  // Increment count
-  entry.count++
+/**
+ * Swap the storage backend or clock, e.g. for an in-memory store in tests
+ */
+export function setRateLimitStore(store: RateLimitStore, clock?: () => number): void {
+  limiter = createRateLimiter(store, clock)
+}
+
+/**
+ * Count a request against a policy for one client
+ */
+export function checkRateLimit(policy: RateLimitPolicyName, identifier: string): RateLimitResult {
+  return limiter.check(policy, identifier)
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft) describing a result
+ */
+export function rateLimitHeaders(result: RateLimitResult, now: number = Date.now()): Record<string, string> {
+  const { windowMs } = RATE_LIMIT_POLICIES[result.policy]
   return {
-    success: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
+    'RateLimit-Policy': `${result.limit};w=${Math.round(windowMs / 1000)}`,
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetTime - now) / 1000))),
   }
 }
 
-// Get client identifier from request (IP address or forwarded header)
-export function getClientIdentifier(request: Request): string {
-  // Try to get real IP from forwarded headers (for proxies/load balancers)
-  const forwarded = request.headers.get('x-forwarded-for')
-  if (forwarded) {
-    // Get the first IP in the chain (original client)
-    return forwarded.split(',')[0].trim()
+/**
+ * Add RateLimit-* headers to a response a route has already built. Headers already set
+ * by a more specific limit (such as a 429 for one device) are kept.
+ */
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  if (response.headers.has('RateLimit-Policy')) {
+    return response
+  }
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value)
   }
+  return response
+}
+
+/**
+ * The 429 response for a request over its limit
+ */
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  const headers = rateLimitHeaders(result)
+  return NextResponse.json(
+    { error: 'Too many requests. Please try again later.' },
+    {
+      status: 429,
+      headers: { ...headers, 'Retry-After': headers['RateLimit-Reset'] },
+    }
+  )
+}
 
-  const realIp = request.headers.get('x-real-ip')
-  if (realIp) {
-    return realIp
+/**
+ * Key for per-IP limits, or null in production when the request did not come through our
+ * proxies and has no address we can trust. Such requests are refused rather than counted
+ * in one bucket shared by every client. Without a proxy in development, every request is
+ * the developer's.
+ */
+export function getClientIdentifier(request: Request): string | null {
+  return getClientIp(request) ?? (process.env.NODE_ENV === 'production' ? null : 'local-client')
+}
+
+/**
+ * The 400 response for a request getClientIdentifier() could not place
+ */
+export function unidentifiedClientResponse(): NextResponse {
+  return NextResponse.json({ error: 'Could not identify the client' }, { status: 400 })
+}
+
+/**
+ * Count a request against a per-client policy: by install id when the request carries a
+ * valid install token, with the policy's per-IP limit on top, or by IP alone otherwise.
+ * Returns whichever result is closer to its limit, or null for an unidentified client.
+ */
+export function checkClientRateLimit(policy: ClientRateLimitPolicyName, request: Request): RateLimitResult | null {
+  const ip = getClientIdentifier(request)
+  if (!ip) {
+    return null
+  }
+  const installId = verifyInstallToken(getInstallToken(request))
+  if (!installId) {
+    return checkRateLimit(policy, ip)
   }
 
-  // Fallback - in production this should be the actual client IP
-  return 'unknown-client'
+  const ipResult = checkRateLimit(IP_POLICIES[policy], ip)
+  if (!ipResult.success) {
+    return ipResult
+  }
+  const installResult = checkRateLimit(policy, installId)
+  return !installResult.success || installResult.remaining <= ipResult.remaining ? installResult : ipResult
 }
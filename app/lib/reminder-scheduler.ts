@@ -0,0 +1,159 @@
+/**
+ * Reminder Scheduler
+ * Finds medication doses that are due for synced schedules and delivers them,
+ * either as push notifications or through the service worker's periodic sync.
+ * The clock and push sender are injectable so it can be run locally without real pushes.
+ */
+
+import type { PushSubscription } from 'web-push'
+import { expandDoses } from './medication-schedule'
+import {
+  getSubscription,
+  sendPushNotification,
+  type NotificationPayload,
+  type PushSendResult,
+} from './push-notifications'
+import {
+  getReminderSchedule,
+  getReminderScheduleIds,
+  updateDeliveredReminders,
+  type ReminderSync,
+} from './reminder-store'
+
+// Doses older than this are no longer worth a "time to take" reminder
+export const REMINDER_WINDOW_MS = 30 * 60 * 1000
+
+export interface DueReminder {
+  id: string
+  title: string
+  body: string
+  data: {
+    medicationId: string
+    scheduledTime: string
+    url: string
+  }
+}
+
+export interface ReminderRunResult {
+  checked: number // Subscriptions with a synced schedule
+  sent: number
+  failed: number
+  expired: number // Subscriptions the push service reported gone; they were removed
+}
+
+export interface ReminderSchedulerOptions {
+  now?: () => Date
+  send?: (subscription: PushSubscription, payload: NotificationPayload) => Promise<PushSendResult>
+  getSubscription?: (subscriptionId: string) => PushSubscription | undefined
+  getSchedule?: (subscriptionId: string) => ReminderSync | null
+  getScheduleIds?: () => string[]
+  updateDelivered?: (subscriptionId: string, change: (delivered: Record<string, number>) => Record<string, number>) => void
+}
+
+export function createReminderScheduler(options: ReminderSchedulerOptions = {}) {
+  const now = options.now || (() => new Date())
+  const send = options.send || sendPushNotification
+  const findSubscription = options.getSubscription || getSubscription
+  const findSchedule = options.getSchedule || getReminderSchedule
+  const listScheduleIds = options.getScheduleIds || getReminderScheduleIds
+  // Reminders already handed out, kept with the schedule and checked and marked in one
+  // update, so push and periodic sync never repeat a dose across restarts and instances
+  const updateDelivered = options.updateDelivered || updateDeliveredReminders
+
+  /**
+   * Reminders that came due in the last REMINDER_WINDOW_MS and were not delivered yet.
+   * Returned reminders are marked as delivered.
+   */
+  const collectDueReminders = (subscriptionId: string): DueReminder[] => {
+    const sync = findSchedule(subscriptionId)
+    if (!sync) {
+      return []
+    }
+
+    const at = now()
+    const from = new Date(at.getTime() - REMINDER_WINDOW_MS)
+    const to = new Date(at.getTime() + 1) // Include a dose due exactly now
+    const reminders: DueReminder[] = []
+
+    updateDelivered(subscriptionId, (keys) => {
+      for (const [key, doseTime] of Object.entries(keys)) {
+        if (doseTime < at.getTime() - 2 * REMINDER_WINDOW_MS) {
+          delete keys[key]
+        }
+      }
+
+      for (const med of sync.medications) {
+        for (const dose of expandDoses(med, from, to, sync.timeZone)) {
+          const id = `${med.id}_${dose.time.getTime()}`
+          if (id in keys) {
+            continue
+          }
+          keys[id] = dose.time.getTime()
+          // With the app lock on, reminders must not reveal the medication on the lock screen
+          reminders.push({
+            id,
+            title: sync.privateReminders ? 'Medication reminder' : `Time to take ${med.name}`,
+            body: sync.privateReminders
+              ? 'A dose is due. Open TransplantFood to see the details.'
+              : `Dosage: ${dose.dosage}${med.withFood ? '\nTake with food' : ''}`,
+            data: {
+              medicationId: med.id,
+              scheduledTime: dose.time.toISOString(),
+              url: '/medications',
+            },
+          })
+        }
+      }
+      return keys
+    })
+
+    return reminders
+  }
+
+  /**
+   * Push every due reminder for every synced schedule. Called by the cron trigger.
+   */
+  const sendDueReminders = async (): Promise<ReminderRunResult> => {
+    const result: ReminderRunResult = { checked: 0, sent: 0, failed: 0, expired: 0 }
+
+    for (const subscriptionId of listScheduleIds()) {
+      const subscription = findSubscription(subscriptionId)
+      if (!subscription) {
+        continue
+      }
+      result.checked++
+
+      for (const reminder of collectDueReminders(subscriptionId)) {
+        const sendResult = await send(subscription, {
+          title: reminder.title,
+          body: reminder.body,
+          icon: '/icon-192.png',
+          badge: '/icon-192.png',
+          tag: `medication-${reminder.id}`,
+          data: reminder.data,
+        })
+
+        if (sendResult.status === 'delivered') {
+          result.sent++
+        } else if (sendResult.status === 'expired') {
+          // The subscription and its schedule are gone; skip its remaining reminders
+          result.expired++
+          break
+        } else {
+          // Leave it undelivered so the next run or periodic sync can retry
+          updateDelivered(subscriptionId, (keys) => {
+            delete keys[reminder.id]
+            return keys
+          })
+          result.failed++
+        }
+      }
+    }
+
+    return result
+  }
+
+  return { collectDueReminders, sendDueReminders }
+}
+
+export const reminderScheduler = createReminderScheduler()
@@ -0,0 +1,209 @@
+/**
+ * Reminder Schedule Store
+ * Medication schedules that users opted to sync for server-sent reminders, and which of
+ * their doses were already reminded. Each schedule is encrypted with AES-256-GCM and keyed
+ * by push subscription id.
+ *
+ * Like push subscriptions, records are kept in a JSON file by default, or in memory for
+ * tests and local experiments.
+ */
+
+import crypto from 'crypto'
+import path from 'path'
+import { createJsonFile } from './json-file'
+import type { Medication } from './validation'
+
+export interface ReminderSync {
+  medications: Medication[]
+  timeZone: string // IANA zone the reminder times are in, e.g. "America/Chicago"
+  privateReminders?: boolean // App lock is on: send reminders without medication details
+  updatedAt: string
+}
+
+export interface EncryptedSchedule {
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+export interface ReminderRecord {
+  schedule: EncryptedSchedule
+  delivered: Record<string, number> // Reminder id -> dose time (ms) of recently delivered doses
+}
+
+export interface ReminderStore {
+  get(id: string): ReminderRecord | undefined
+  // Replace a record with change(record) in one step, so concurrent changes are all kept.
+  // Returning the record unchanged leaves it as it is.
+  update(id: string, change: (record: ReminderRecord | undefined) => ReminderRecord | undefined): void
+  delete(id: string): void
+  ids(): string[]
+}
+
+export const DEFAULT_REMINDERS_FILE = path.join(process.cwd(), '.data', 'reminder-schedules.json')
+
+// Any string works; it is hashed to a 256-bit key. Required in production, since records
+// written under a temporary key cannot be read after a restart.
+const ENCRYPTION_SECRET = process.env.REMINDER_ENCRYPTION_KEY || ''
+
+let encryptionKey: Buffer | null = null
+
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    if (!ENCRYPTION_SECRET && process.env.NODE_ENV === 'production') {
+      throw new Error('REMINDER_ENCRYPTION_KEY must be set to sync reminder schedules')
+    }
+    encryptionKey = ENCRYPTION_SECRET
+      ? crypto.createHash('sha256').update(ENCRYPTION_SECRET).digest()
+      : crypto.randomBytes(32)
+  }
+  return encryptionKey
+}
+
+export function createMemoryReminderStore(): ReminderStore {
+  const records = new Map<string, ReminderRecord>()
+
+  return {
+    get: (id) => records.get(id),
+    update: (id, change) => {
+      const record = change(records.get(id))
+      if (record) {
+        records.set(id, record)
+      }
+    },
+    delete: (id) => {
+      records.delete(id)
+    },
+    ids: () => Array.from(records.keys()),
+  }
+}
+
+/**
+ * Records kept in a JSON file, shared by every process on the same disk
+ */
+export function createFileReminderStore(filePath: string = DEFAULT_REMINDERS_FILE): ReminderStore {
+  const file = createJsonFile<Record<string, ReminderRecord>>(filePath, {
+    name: 'reminder schedules file',
+    empty: () => ({}),
+    revive: (saved) => Object.fromEntries(Object.entries(saved as Record<string, ReminderRecord>)
+      .filter(([, record]) => record && record.schedule && typeof record.schedule.ciphertext === 'string')
+      .map(([id, record]) => [id, { schedule: record.schedule, delivered: record.delivered || {} }])),
+  })
+
+  return {
+    get: (id) => file.read()[id],
+    update: (id, change) => {
+      file.update((records) => {
+        const record = change(records[id])
+        return record && record !== records[id] ? { ...records, [id]: record } : records
+      })
+    },
+    delete: (id) => {
+      if (file.read()[id]) {
+        file.update((records) => {
+          const next = { ...records }
+          delete next[id]
+          return next
+        })
+      }
+    },
+    ids: () => Object.keys(file.read()),
+  }
+}
+
+// Kept in a JSON file by default so schedules survive restarts and deploys.
+// Set REMINDER_STORE=memory to keep them in memory only.
+let store: ReminderStore = process.env.REMINDER_STORE === 'memory'
+  ? createMemoryReminderStore()
+  : createFileReminderStore(process.env.REMINDER_SCHEDULES_FILE || undefined)
+
+/**
+ * Swap the storage backend, e.g. for an in-memory store in tests
+ */
+export function setReminderStore(next: ReminderStore): void {
+  store = next
+}
+
+function encrypt(value: unknown, subscriptionId: string): EncryptedSchedule {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  // Bind the record to its subscription so it cannot be swapped onto another one
+  cipher.setAAD(Buffer.from(subscriptionId))
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()])
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  }
+}
+
+function decrypt<T>(record: EncryptedSchedule, subscriptionId: string): T | null {
+  const key = getEncryptionKey()
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(record.iv, 'base64'))
+    decipher.setAAD(Buffer.from(subscriptionId))
+    decipher.setAuthTag(Buffer.from(record.tag, 'base64'))
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(record.ciphertext, 'base64')), decipher.final()])
+    return JSON.parse(plaintext.toString('utf8')) as T
+  } catch (error) {
+    console.error('Could not decrypt reminder schedule:', error)
+    return null
+  }
+}
+
+/**
+ * Save a synced schedule. Doses already reminded stay marked, so editing the schedule
+ * does not repeat them.
+ */
+export function saveReminderSchedule(subscriptionId: string, sync: ReminderSync): void {
+  const schedule = encrypt(sync, subscriptionId)
+  store.update(subscriptionId, (record) => ({ schedule, delivered: record?.delivered || {} }))
+}
+
+export function getReminderSchedule(subscriptionId: string): ReminderSync | null {
+  const record = store.get(subscriptionId)
+  return record ? decrypt<ReminderSync>(record.schedule, subscriptionId) : null
+}
+
+export function hasReminderSchedule(subscriptionId: string): boolean {
+  return store.get(subscriptionId) !== undefined
+}
+
+export function removeReminderSchedule(subscriptionId: string): void {
+  store.delete(subscriptionId)
+}
+
+/**
+ * Re-key a schedule when its push subscription is replaced
+ */
+export function moveReminderSchedule(oldId: string, newId: string): void {
+  const record = store.get(oldId)
+  const sync = getReminderSchedule(oldId)
+  store.delete(oldId)
+  if (record && sync) {
+    const schedule = encrypt(sync, newId)
+    store.update(newId, () => ({ schedule, delivered: record.delivered }))
+  }
+}
+
+export function getReminderScheduleIds(): string[] {
+  return store.ids()
+}
+
+/**
+ * Change the delivered reminders of a schedule in one step, so two deliveries running at
+ * once cannot both hand out a dose. Does nothing once the schedule is gone.
+ */
+export function updateDeliveredReminders(
+  subscriptionId: string,
+  change: (delivered: Record<string, number>) => Record<string, number>
+): void {
+  store.update(subscriptionId, (record) => {
+    if (!record) {
+      return record
+    }
+    const delivered = change({ ...record.delivered })
+    // Leave the record alone when nothing changed, so checks without due doses do not write
+    return JSON.stringify(delivered) === JSON.stringify(record.delivered) ? record : { ...record, delivered }
+  })
+}
@@ -0,0 +1,64 @@
+/**
+ * Reminder Sync
+ * Client side of the opt-in server reminders: the settings they need on the device and the
+ * request that keeps the server's copy of the medication schedule current.
+ */
+
+import { getLockSettings } from './app-lock'
+import { secureGet } from './secure-storage'
+import { loadStoredData } from './stored-data'
+import type { Medication } from './validation'
+
+// Whether the user opted in to syncing their schedule for server-sent reminders
+export const SERVER_REMINDERS_KEY = 'serverReminders'
+
+// Signed token from the server proving this device owns its push subscription
+export const DEVICE_TOKEN_KEY = 'pushDeviceToken'
+
+export function getPushHeaders(deviceToken: string): HeadersInit {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${deviceToken}`,
+  }
+}
+
+/**
+ * Send the schedule to the server. Reminders leave out medication names while the app
+ * lock is on (privateReminders), so this needs to run again whenever the lock is turned
+ * on or off.
+ */
+export function syncReminderSchedule(
+  endpoint: string,
+  deviceToken: string,
+  medications: Medication[],
+  privateReminders: boolean
+): Promise<Response> {
+  return fetch('/api/push/schedule', {
+    method: 'PUT',
+    headers: getPushHeaders(deviceToken),
+    body: JSON.stringify({
+      endpoint,
+      medications,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      privateReminders,
+    }),
+  })
+}
+
+/**
+ * Sync the saved schedule from outside the medications page, e.g. after the app lock
+ * changed. Does nothing unless server reminders are on and this device is subscribed.
+ */
+export async function resyncReminderSchedule(): Promise<void> {
+  if (!('serviceWorker' in navigator) || (await secureGet<boolean>(SERVER_REMINDERS_KEY, false)) !== true) {
+    return
+  }
+  const deviceToken = await secureGet<string | null>(DEVICE_TOKEN_KEY, null)
+  const registration = await navigator.serviceWorker.ready
+  const subscription = await registration.pushManager?.getSubscription()
+  if (!deviceToken || !subscription) {
+    return
+  }
+  const medications = await loadStoredData<Medication[]>('medications')
+  await syncReminderSchedule(subscription.endpoint, deviceToken, medications, getLockSettings().enabled)
+}
@@ -1,47 +1,367 @@
 /**
  * Secure Storage Utility
- * Provides encrypted localStorage operations for sensitive data
+ * Encrypted localStorage operations for sensitive data.
+ *
+ * Values are encrypted with AES-GCM (WebCrypto). The key is generated on the device,
+ * is non-extractable and lives in IndexedDB, so it never ships in the bundle and
+ * cannot be read out by scripts. Stored values look like "v2:<iv>:<ciphertext>".
+ * Values written by the old XOR scheme are migrated on first use.
+ *
+ * With the app lock on, the key is stored wrapped by a key derived from the user's PIN
+ * and reads and writes wait until unlockStorage() is called with the right PIN.
  */
 
-// Simple encryption key derived from a constant (in production, use a more secure key derivation)
-const ENCRYPTION_KEY = 'transplant-food-secure-v1'
+const CIPHERTEXT_VERSION = 'v2'
+
+// IndexedDB home of the storage key
+const KEY_DB_NAME = 'transplantfood-keys'
+const KEY_STORE = 'keys'
+const STORAGE_KEY_ID = 'storage-v2'
+const PIN_WRAPPED_KEY_ID = 'storage-v2-pin'
+// Key the data is being re-encrypted from while the lock is turned on or off
+const PREVIOUS_KEY_ID = 'storage-v2-previous'
+
+// PBKDF2 work factor for deriving the PIN wrapping key
+const PIN_KDF_ITERATIONS = 310000
+
+// Set once every legacy value has been re-encrypted
+const MIGRATION_MARKER = 'secureStorageVersion'
+
+// Key of the retired XOR scheme, kept only to read values written before v2
+const LEGACY_XOR_KEY = 'transplant-food-secure-v1'
+
+interface PinWrappedKey {
+  salt: Uint8Array<ArrayBuffer>
+  iv: Uint8Array<ArrayBuffer>
+  wrappedKey: ArrayBuffer
+  iterations: number
+}
+
+let initPromise: Promise<void> | null = null
+let activeKey: CryptoKey | null = null
+let keyWaiters: ((key: CryptoKey) => void)[] = []
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KEY_STORE)
+    }
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+async function readKeyRecord<T>(id: string): Promise<T | undefined> {
+  const db = await openKeyDatabase()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const request = db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(id)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result as T | undefined)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Write and delete key records in one transaction, so a crash never leaves the data without a key
+ */
+async function updateKeyRecords(puts: Record<string, unknown>, deletes: string[] = []): Promise<void> {
+  const db = await openKeyDatabase()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(KEY_STORE, 'readwrite')
+      const store = tx.objectStore(KEY_STORE)
+      for (const [id, value] of Object.entries(puts)) {
+        store.put(value, id)
+      }
+      for (const id of deletes) {
+        store.delete(id)
+      }
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+function assertCryptoAvailable(): void {
+  if (typeof window === 'undefined' || !window.crypto?.subtle || typeof indexedDB === 'undefined') {
+    throw new Error('Secure storage requires WebCrypto and IndexedDB (HTTPS or localhost)')
+  }
+}
+
+function generateStorageKey(extractable: boolean): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt']) as Promise<CryptoKey>
+}
+
+async function activateKey(key: CryptoKey): Promise<void> {
+  await migrateLegacyValues(key)
+  await finishKeyChange(key)
+  activeKey = key
+  const waiters = keyWaiters
+  keyWaiters = []
+  waiters.forEach((resolve) => resolve(key))
+}
+
+/**
+ * Load the device's storage key, creating it on first use. Stays locked if a PIN protects it.
+ */
+function initialize(): Promise<void> {
+  if (!initPromise) {
+    initPromise = (async () => {
+      assertCryptoAvailable()
+      if (await readKeyRecord<PinWrappedKey>(PIN_WRAPPED_KEY_ID)) {
+        return
+      }
+
+      let key = await readKeyRecord<CryptoKey>(STORAGE_KEY_ID)
+      if (!key) {
+        await updateKeyRecords({ [STORAGE_KEY_ID]: await generateStorageKey(false) })
+        // Another tab may have raced us; whichever key was stored last wins, so read it back
+        key = await readKeyRecord<CryptoKey>(STORAGE_KEY_ID)
+      }
+      if (key) {
+        await activateKey(key)
+      }
+    })()
+    // Let a later call retry if IndexedDB was briefly unavailable
+    initPromise.catch(() => {
+      initPromise = null
+    })
+  }
+  return initPromise
+}
+
+/**
+ * Resolves with the storage key, waiting for the app to be unlocked if needed
+ */
+async function ready(): Promise<CryptoKey> {
+  await initialize()
+  if (activeKey) {
+    return activeKey
+  }
+  return new Promise((resolve) => keyWaiters.push(resolve))
+}
+
+async function derivePinKey(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  )
+}
+
+/**
+ * Re-encrypt every stored value from one key to another.
+ * Values the old key cannot decrypt are already converted, so an interrupted run can simply be repeated.
+ */
+async function reencryptAll(fromKey: CryptoKey, toKey: CryptoKey): Promise<void> {
+  for (const storageKey of Object.keys(localStorage)) {
+    const value = localStorage.getItem(storageKey)
+    if (!value || !isCurrentFormat(value)) {
+      continue
+    }
+    let plaintext: string
+    try {
+      plaintext = await decrypt(fromKey, storageKey, value)
+    } catch {
+      continue
+    }
+    localStorage.setItem(storageKey, await encrypt(toKey, storageKey, plaintext))
+  }
+}
+
+/**
+ * Complete a lock/unlock key change that was interrupted, e.g. by closing the app mid-way
+ */
+async function finishKeyChange(key: CryptoKey): Promise<void> {
+  const previousKey = await readKeyRecord<CryptoKey>(PREVIOUS_KEY_ID)
+  if (previousKey) {
+    await reencryptAll(previousKey, key)
+    await updateKeyRecords({}, [PREVIOUS_KEY_ID])
+  }
+}
+
+/**
+ * Whether a PIN protects the storage key
+ */
+export async function isStorageLockEnabled(): Promise<boolean> {
+  assertCryptoAvailable()
+  return Boolean(await readKeyRecord<PinWrappedKey>(PIN_WRAPPED_KEY_ID))
+}
+
+export function isStorageUnlocked(): boolean {
+  return activeKey !== null
+}
+
+/**
+ * Protect the storage key with a PIN. Must be called while unlocked.
+ * All data is re-encrypted under a fresh key that is only ever stored wrapped.
+ */
+export async function enableStorageLock(pin: string): Promise<void> {
+  const currentKey = await ready()
+
+  // The new key has to be extractable once so it can be wrapped; only the unwrapped,
+  // non-extractable copy is kept in memory afterwards
+  const newKey = await generateStorageKey(true)
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const pinKey = await derivePinKey(pin, salt, PIN_KDF_ITERATIONS)
+  const wrappedKey = await crypto.subtle.wrapKey('raw', newKey, pinKey, { name: 'AES-GCM', iv })
+
+  const record: PinWrappedKey = { salt, iv, wrappedKey, iterations: PIN_KDF_ITERATIONS }
+  await updateKeyRecords({ [PIN_WRAPPED_KEY_ID]: record, [PREVIOUS_KEY_ID]: currentKey }, [STORAGE_KEY_ID])
+
+  activeKey = await crypto.subtle.unwrapKey('raw', wrappedKey, pinKey, { name: 'AES-GCM', iv }, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  await finishKeyChange(activeKey)
+}
 
 /**
- * Simple XOR-based encryption for localStorage
- * Note: For production apps handling PHI, use a proper encryption library like crypto-js
+ * Remove the PIN protection. Must be called while unlocked.
  */
-function encrypt(data: string): string {
-  const encoded = btoa(unescape(encodeURIComponent(data)))
-  let result = ''
-  for (let i = 0; i < encoded.length; i++) {
-    const charCode = encoded.charCodeAt(i) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length)
-    result += String.fromCharCode(charCode)
+export async function disableStorageLock(): Promise<void> {
+  const currentKey = await ready()
+  const newKey = await generateStorageKey(false)
+  await updateKeyRecords({ [STORAGE_KEY_ID]: newKey, [PREVIOUS_KEY_ID]: currentKey }, [PIN_WRAPPED_KEY_ID])
+  activeKey = newKey
+  await finishKeyChange(newKey)
+}
+
+/**
+ * Unwrap the storage key with the PIN. Returns false if the PIN is wrong.
+ */
+export async function unlockStorage(pin: string): Promise<boolean> {
+  await initialize()
+  const record = await readKeyRecord<PinWrappedKey>(PIN_WRAPPED_KEY_ID)
+  if (!record) {
+    return activeKey !== null
+  }
+
+  try {
+    const pinKey = await derivePinKey(pin, record.salt, record.iterations)
+    const key = await crypto.subtle.unwrapKey(
+      'raw',
+      record.wrappedKey,
+      pinKey,
+      { name: 'AES-GCM', iv: record.iv },
+      'AES-GCM',
+      false,
+      ['encrypt', 'decrypt']
+    )
+    await activateKey(key)
+    return true
+  } catch {
+    // AES-GCM unwrapping fails its integrity check when the PIN is wrong
+    return false
   }
-  return btoa(result)
 }
 
-function decrypt(data: string): string {
+/**
+ * Forget the unlocked key. Later reads and writes wait for unlockStorage().
+ */
+export function lockStorage(): void {
+  activeKey = null
+}
+
+// Base64 helpers shared with the backup file format
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// The storage key name is bound as additional data, so a value copied under another key fails to decrypt
+async function encrypt(cryptoKey: CryptoKey, storageKey: string, data: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(storageKey) },
+    cryptoKey,
+    new TextEncoder().encode(data)
+  )
+  return `${CIPHERTEXT_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`
+}
+
+async function decrypt(cryptoKey: CryptoKey, storageKey: string, value: string): Promise<string> {
+  const [, iv, ciphertext] = value.split(':')
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(storageKey) },
+    cryptoKey,
+    fromBase64(ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+function isCurrentFormat(value: string): boolean {
+  return value.startsWith(`${CIPHERTEXT_VERSION}:`)
+}
+
+/**
+ * Decode a value written by the retired XOR scheme. Returns null if it was not one.
+ */
+function decodeLegacyXor(data: string): string | null {
   try {
     const decoded = atob(data)
     let result = ''
     for (let i = 0; i < decoded.length; i++) {
-      const charCode = decoded.charCodeAt(i) ^ ENCRYPTION_KEY.charCodeAt(i % ENCRYPTION_KEY.length)
+      const charCode = decoded.charCodeAt(i) ^ LEGACY_XOR_KEY.charCodeAt(i % LEGACY_XOR_KEY.length)
       result += String.fromCharCode(charCode)
     }
-    return decodeURIComponent(escape(atob(result)))
+    const json = decodeURIComponent(escape(atob(result)))
+    JSON.parse(json)
+    return json
   } catch {
-    return ''
+    return null
   }
 }
 
 /**
- * Securely store data in localStorage with encryption
+ * One-time pass that re-encrypts every XOR-encoded value with the new key.
+ * Values that are not XOR-encoded (e.g. other libraries' data) are left alone.
  */
-export function secureSet<T>(key: string, value: T): void {
+async function migrateLegacyValues(cryptoKey: CryptoKey): Promise<void> {
+  if (localStorage.getItem(MIGRATION_MARKER) === CIPHERTEXT_VERSION) {
+    return
+  }
+
+  for (const storageKey of Object.keys(localStorage)) {
+    const value = localStorage.getItem(storageKey)
+    if (!value || isCurrentFormat(value)) {
+      continue
+    }
+    const json = decodeLegacyXor(value)
+    if (json !== null) {
+      localStorage.setItem(storageKey, await encrypt(cryptoKey, storageKey, json))
+    }
+  }
+
+  localStorage.setItem(MIGRATION_MARKER, CIPHERTEXT_VERSION)
+}
+
+/**
+ * Encrypt and store data in localStorage
+ */
+export async function secureSet<T>(key: string, value: T): Promise<void> {
   try {
-    const jsonString = JSON.stringify(value)
-    const encrypted = encrypt(jsonString)
-    localStorage.setItem(key, encrypted)
+    const cryptoKey = await ready()
+    localStorage.setItem(key, await encrypt(cryptoKey, key, JSON.stringify(value)))
   } catch (error) {
     console.error('Error saving to secure storage:', error)
   }
@@ -50,24 +370,23 @@ export function secureSet<T>(key: string, value: T): void {
 /**
  * Retrieve and decrypt data from localStorage
  */
-export function secureGet<T>(key: string, defaultValue: T): T {
+export async function secureGet<T>(key: string, defaultValue: T): Promise<T> {
   try {
-    const encrypted = localStorage.getItem(key)
-    if (!encrypted) {
+    const cryptoKey = await ready()
+    const stored = localStorage.getItem(key)
+    if (!stored) {
       return defaultValue
     }
 
-    const decrypted = decrypt(encrypted)
-    if (!decrypted) {
-      // Try reading as plain JSON for backward compatibility
-      try {
-        return JSON.parse(encrypted) as T
-      } catch {
-        return defaultValue
-      }
+    if (isCurrentFormat(stored)) {
+      return JSON.parse(await decrypt(cryptoKey, key, stored)) as T
     }
 
-    return JSON.parse(decrypted) as T
+    // Older plain JSON (or XOR data written by an old tab after migration): read it and re-encrypt
+    const legacy = decodeLegacyXor(stored) ?? stored
+    const value = JSON.parse(legacy) as T
+    await secureSet(key, value)
+    return value
   } catch (error) {
     console.error('Error reading from secure storage:', error)
     return defaultValue
@@ -104,7 +423,7 @@ export function isStorageAvailable(): boolean {
     const test = '__storage_test__'
     localStorage.setItem(test, test)
     localStorage.removeItem(test)
-    return true
+    return typeof window !== 'undefined' && Boolean(window.crypto?.subtle) && typeof indexedDB !== 'undefined'
   } catch {
     return false
   }
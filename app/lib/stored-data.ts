@@ -0,0 +1,270 @@
+/**
+ * Versioned Stored Data
+ * Wraps secure storage values in a { schemaVersion, data } envelope, upgrades old values
+ * through a per-key migration registry when they are loaded, and moves records that fail
+ * validation into a quarantine instead of dropping them.
+ *
+ * Values saved before envelopes existed are treated as version 0; values saved by a newer
+ * version of the app are left as they are.
+ */
+
+import { secureGet, secureSet } from './secure-storage'
+import { getMedicationSchedule } from './medication-schedule'
+import {
+  validateAnalysisHistoryEntry,
+  validateCachedProduct,
+  validateDailyMenu,
+  validateDoseEvent,
+  validateIntakeEntry,
+  validateMealRecommendation,
+  validateMedication,
+  validatePatientProfile,
+  type Medication,
+  type ValidationResult,
+} from './validation'
+
+export const QUARANTINE_KEY = 'quarantinedRecords'
+
+// Oldest entries are dropped past this, so a value that keeps failing cannot grow storage forever
+const MAX_QUARANTINED = 200
+
+interface StoredEnvelope {
+  schemaVersion: number
+  data: unknown
+}
+
+type Migration = (data: unknown) => unknown
+
+interface StorageSchema {
+  version: number
+  migrations: Migration[] // migrations[n] upgrades version n to n + 1
+  empty: () => unknown // Value when nothing valid is stored
+  // Collections are checked item by item, so one bad record does not cost the rest
+  collection: boolean
+  validate: (data: unknown) => ValidationResult
+}
+
+export interface QuarantinedRecord {
+  id: string
+  storageKey: string
+  schemaVersion: number
+  record: unknown
+  errors: string[]
+  quarantinedAt: string
+}
+
+// Apply a migration to every object in a collection, leaving anything else for validation to reject
+function eachItem(migrate: (item: Record<string, unknown>) => Record<string, unknown>): Migration {
+  return (data) => Array.isArray(data)
+    ? data.map((item) => (item && typeof item === 'object' ? migrate(item as Record<string, unknown>) : item))
+    : data
+}
+
+// For values whose v1 only wrapped them in the envelope
+const ENVELOPE_ONLY: Migration[] = [(data) => data]
+
+const MEDICATIONS_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: [
+    // v1: fill fields missing on the earliest medications and store the implied daily schedule explicitly
+    eachItem((med) => {
+      const migrated: Record<string, unknown> = {
+        ...med,
+        times: Array.isArray(med.times) ? med.times : typeof med.time === 'string' ? [med.time] : med.times,
+        notes: med.notes ?? '',
+        withFood: med.withFood ?? false,
+      }
+      delete migrated.time
+      if (!migrated.schedule && validateMedication(migrated).valid) {
+        migrated.schedule = getMedicationSchedule(migrated as unknown as Medication)
+      }
+      return migrated
+    }),
+  ],
+  empty: () => [],
+  collection: true,
+  validate: validateMedication,
+}
+
+const MEAL_FAVORITES_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => [],
+  collection: true,
+  validate: validateMealRecommendation,
+}
+
+const DAILY_MENU_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => null,
+  collection: false,
+  validate: validateDailyMenu,
+}
+
+const PRODUCT_CACHE_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => [],
+  collection: true,
+  validate: validateCachedProduct,
+}
+
+const ANALYSIS_HISTORY_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => [],
+  collection: true,
+  validate: validateAnalysisHistoryEntry,
+}
+
+const PATIENT_PROFILE_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => null,
+  collection: false,
+  validate: validatePatientProfile,
+}
+
+const DOSE_HISTORY_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => [],
+  collection: true,
+  validate: validateDoseEvent,
+}
+
+const INTAKE_LOG_SCHEMA: StorageSchema = {
+  version: 1,
+  migrations: ENVELOPE_ONLY,
+  empty: () => [],
+  collection: true,
+  validate: validateIntakeEntry,
+}
+
+// Registry by storage key; entries ending in "_" match every key with that prefix
+const SCHEMAS: Record<string, StorageSchema> = {
+  medications: MEDICATIONS_SCHEMA,
+  mealFavorites: MEAL_FAVORITES_SCHEMA,
+  dailyMenu_: DAILY_MENU_SCHEMA,
+  productCache: PRODUCT_CACHE_SCHEMA,
+  analysisHistory: ANALYSIS_HISTORY_SCHEMA,
+  patientProfile: PATIENT_PROFILE_SCHEMA,
+  doseHistory: DOSE_HISTORY_SCHEMA,
+  intakeLog_: INTAKE_LOG_SCHEMA,
+}
+
+function getSchema(storageKey: string): StorageSchema {
+  const schema = SCHEMAS[storageKey] ??
+    Object.entries(SCHEMAS).find(([key]) => key.endsWith('_') && storageKey.startsWith(key))?.[1]
+  if (!schema) {
+    throw new Error(`No storage schema registered for ${storageKey}`)
+  }
+  return schema
+}
+
+function isEnvelope(value: unknown): value is StoredEnvelope {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+    typeof (value as StoredEnvelope).schemaVersion === 'number' && 'data' in (value as object)
+}
+
+/**
+ * Load a registered value, migrating it to the current schema and quarantining invalid records.
+ * Returns the schema's empty value (e.g. []) when nothing valid is stored.
+ */
+export async function loadStoredData<T>(storageKey: string): Promise<T> {
+  const schema = getSchema(storageKey)
+  const stored = await secureGet<unknown>(storageKey, null)
+  if (stored === null) {
+    return schema.empty() as T
+  }
+
+  let version = isEnvelope(stored) ? stored.schemaVersion : 0
+  let data = isEnvelope(stored) ? stored.data : stored
+
+  if (version > schema.version) {
+    // Written by a newer version of the app, e.g. before a rollback. Leave it in place for
+    // that version to read again rather than guess at its shape.
+    return schema.empty() as T
+  }
+
+  const upgraded = version < schema.version
+  try {
+    for (; version < schema.version; version++) {
+      data = schema.migrations[version](data)
+    }
+  } catch (error) {
+    console.error(`Migration of ${storageKey} to v${version + 1} failed:`, error)
+    await quarantine(storageKey, version, data, [`Could not upgrade from version ${version}`])
+    await saveStoredData(storageKey, schema.empty())
+    return schema.empty() as T
+  }
+
+  // Nothing saved, e.g. a menu that was cleared
+  if (data === null || data === undefined) {
+    return schema.empty() as T
+  }
+
+  let value: unknown
+  const rejected: { record: unknown; errors: string[] }[] = []
+
+  if (schema.collection) {
+    const items = Array.isArray(data) ? data : [data]
+    value = items.filter((item) => {
+      const result = schema.validate(item)
+      if (!result.valid) {
+        rejected.push({ record: item, errors: result.errors })
+      }
+      return result.valid
+    })
+  } else {
+    const result = schema.validate(data)
+    value = result.valid ? data : schema.empty()
+    if (!result.valid) {
+      rejected.push({ record: data, errors: result.errors })
+    }
+  }
+
+  for (const { record, errors } of rejected) {
+    await quarantine(storageKey, version, record, errors)
+  }
+  if (upgraded || rejected.length > 0) {
+    await saveStoredData(storageKey, value)
+  }
+
+  return value as T
+}
+
+/**
+ * Save a registered value at the current schema version
+ */
+export function saveStoredData<T>(storageKey: string, value: T): Promise<void> {
+  return secureSet<StoredEnvelope>(storageKey, { schemaVersion: getSchema(storageKey).version, data: value })
+}
+
+export async function loadQuarantine(): Promise<QuarantinedRecord[]> {
+  const saved = await secureGet<QuarantinedRecord[]>(QUARANTINE_KEY, [])
+  return Array.isArray(saved) ? saved : []
+}
+
+async function quarantine(storageKey: string, schemaVersion: number, record: unknown, errors: string[]): Promise<void> {
+  const entry: QuarantinedRecord = {
+    id: crypto.randomUUID(),
+    storageKey,
+    schemaVersion,
+    record,
+    errors,
+    quarantinedAt: new Date().toISOString(),
+  }
+  console.warn(`Quarantined an invalid record from ${storageKey}:`, errors)
+  await secureSet(QUARANTINE_KEY, [...(await loadQuarantine()), entry].slice(-MAX_QUARANTINED))
+}
+
+/**
+ * Delete a quarantined record once the user has recovered or given up on it
+ */
+export async function discardQuarantined(id: string): Promise<QuarantinedRecord[]> {
+  const remaining = (await loadQuarantine()).filter((entry) => entry.id !== id)
+  await secureSet(QUARANTINE_KEY, remaining)
+  return remaining
+}
@@ -0,0 +1,94 @@
+/**
+ * Push Subscription Store
+ * Storage adapters for push subscriptions: a JSON file that survives restarts,
+ * and an in-memory map for tests and local experiments.
+ */
+
+import path from 'path'
+import type { PushSubscription } from 'web-push'
+import { createJsonFile } from './json-file'
+
+export interface SubscriptionRecord {
+  subscription: PushSubscription
+  createdAt: string // ISO timestamp
+  lastUsedAt: string // ISO timestamp of the last lookup to send a notification
+  platform: string // e.g. "ios", "android", "macos", "windows"
+}
+
+export interface SubscriptionStore {
+  get(id: string): SubscriptionRecord | undefined
+  set(id: string, record: SubscriptionRecord): void
+  delete(id: string): void
+  // Remove oldId and store the record under newId in one step
+  replace(oldId: string, newId: string, record: SubscriptionRecord): void
+  entries(): [string, SubscriptionRecord][]
+}
+
+export const DEFAULT_SUBSCRIPTIONS_FILE = path.join(process.cwd(), '.data', 'push-subscriptions.json')
+
+export function createMemorySubscriptionStore(): SubscriptionStore {
+  const records = new Map<string, SubscriptionRecord>()
+
+  return {
+    get: (id) => records.get(id),
+    set: (id, record) => {
+      records.set(id, record)
+    },
+    delete: (id) => {
+      records.delete(id)
+    },
+    replace: (oldId, newId, record) => {
+      records.delete(oldId)
+      records.set(newId, record)
+    },
+    entries: () => Array.from(records.entries()),
+  }
+}
+
+/**
+ * Subscriptions kept in a JSON file, shared by every process on the same disk
+ */
+export function createFileSubscriptionStore(filePath: string = DEFAULT_SUBSCRIPTIONS_FILE): SubscriptionStore {
+  const file = createJsonFile<Record<string, SubscriptionRecord>>(filePath, {
+    name: 'push subscriptions file',
+    empty: () => ({}),
+    revive: (saved) => Object.fromEntries(Object.entries(saved as Record<string, SubscriptionRecord>).filter(
+      ([, record]) => record && record.subscription && typeof record.subscription.endpoint === 'string'
+    )),
+  })
+
+  const without = (records: Record<string, SubscriptionRecord>, id: string) => {
+    const next = { ...records }
+    delete next[id]
+    return next
+  }
+
+  return {
+    get: (id) => file.read()[id],
+    set: (id, record) => {
+      file.update((records) => ({ ...records, [id]: record }))
+    },
+    delete: (id) => {
+      if (file.read()[id]) {
+        file.update((records) => without(records, id))
+      }
+    },
+    replace: (oldId, newId, record) => {
+      file.update((records) => ({ ...without(records, oldId), [newId]: record }))
+    },
+    entries: () => Object.entries(file.read()),
+  }
+}
+
+/**
+ * Coarse platform name from a User-Agent header
+ */
+export function detectPlatform(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'unknown'
+  if (/iPhone|iPad|iPod/i.test(userAgent)) return 'ios'
+  if (/Android/i.test(userAgent)) return 'android'
+  if (/Macintosh|Mac OS X/i.test(userAgent)) return 'macos'
+  if (/Windows/i.test(userAgent)) return 'windows'
+  if (/Linux|CrOS/i.test(userAgent)) return 'linux'
+  return 'other'
+}
@@ -0,0 +1,49 @@
+/**
+ * Service Worker Database
+ * IndexedDB shared between the app and public/sw.js. Keep the name, version
+ * and stores in sync with openSwDatabase() in the service worker.
+ */
+
+export const SW_DB_NAME = 'transplantfood-sw'
+export const SW_DB_VERSION = 2
+
+// Dose actions taken from notifications while no app window was open
+export const SW_DOSE_STORE = 'pendingDoseEvents'
+
+// Small key/value settings the service worker needs, e.g. the current push endpoint
+export const SW_STATE_STORE = 'state'
+
+export function openSwDatabase(): Promise<IDBDatabase | null> {
+  return new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null)
+      return
+    }
+
+    const request = indexedDB.open(SW_DB_NAME, SW_DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SW_DOSE_STORE)) {
+        db.createObjectStore(SW_DOSE_STORE, { autoIncrement: true })
+      }
+      if (!db.objectStoreNames.contains(SW_STATE_STORE)) {
+        db.createObjectStore(SW_STATE_STORE)
+      }
+    }
+    request.onerror = () => resolve(null)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+export async function setSwState(key: string, value: unknown): Promise<void> {
+  const db = await openSwDatabase()
+  if (!db) return
+
+  await new Promise<void>((resolve) => {
+    const tx = db.transaction(SW_STATE_STORE, 'readwrite')
+    tx.objectStore(SW_STATE_STORE).put(value, key)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => resolve()
+  })
+  db.close()
+}
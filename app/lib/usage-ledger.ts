@@ -0,0 +1,304 @@
+/**
+ * Usage Ledger
+ * Records the Claude tokens each route spends, per device and per day, and enforces a
+ * daily token quota per device and a larger one per network (client IP), since install ids
+ * are cheap to mint. Per-device and per-network usage is only kept for the current
+ * day (UTC); older days keep just their totals, for cost accounting.
+ *
+ * Like push subscriptions, the ledger is a JSON file by default, or an in-memory object
+ * for tests and local experiments.
+ */
+
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { getClientIdentifier } from './rate-limit'
+import { getInstallToken, verifyInstallToken } from './device-token'
+import { createJsonFile } from './json-file'
+import { QUOTA_EXCEEDED_CODE, type QuotaExceededError, type QuotaScope, type UsageRoute } from './usage-quota'
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface RouteUsage extends TokenUsage {
+  requests: number
+}
+
+export type UsageByRoute = Partial<Record<UsageRoute, RouteUsage>>
+
+export interface UsageLedgerData {
+  totals: Record<string, { clients: number; routes: UsageByRoute }> // By day (YYYY-MM-DD, UTC)
+  clients: Record<string, { day: string; routes: UsageByRoute }> // Each client's usage on its latest day
+  networks: Record<string, { day: string; routes: UsageByRoute }> // The same, summed over each IP's clients
+}
+
+export interface UsageKey {
+  client: string // Install id, or the network for clients without an install token
+  network: string // "ip:<address>"
+}
+
+export interface UsageStore {
+  read(): UsageLedgerData
+  // Save change(ledger) in one step, so concurrent requests never lose each other's usage
+  update(change: (data: UsageLedgerData) => UsageLedgerData): void
+}
+
+export interface QuotaStatus {
+  allowed: boolean
+  route: UsageRoute
+  scope: QuotaScope // Whose quota this is
+  used: number // Tokens spent today
+  limit: number // Daily token quota; 0 means unlimited
+  resetAt: Date
+}
+
+export interface DailyUsageSummary extends RouteUsage {
+  day: string
+  clients: number
+  estimatedCostUsd: number
+  routes: UsageByRoute
+}
+
+export interface UsageSummary {
+  days: DailyUsageSummary[] // Newest first
+  totals: RouteUsage & { estimatedCostUsd: number }
+}
+
+export const DEFAULT_USAGE_FILE = path.join(process.cwd(), '.data', 'usage.json')
+
+// Daily totals older than this are dropped
+const RETENTION_DAYS = 90
+
+// List prices of the default model (Claude Sonnet 4), in US dollars per million tokens.
+// Update them together with ANTHROPIC_MODEL.
+const PRICE_PER_MILLION_INPUT_TOKENS = 3
+const PRICE_PER_MILLION_OUTPUT_TOKENS = 15
+
+// Tokens per device per UTC day. An analysis of a few label photos uses about 5,000;
+// a set of meal suggestions about 2,500.
+const DEFAULT_DAILY_QUOTAS: Record<UsageRoute, number> = {
+  analyze: 150000,
+  meals: 10000,
+}
+
+// Tokens per client IP per UTC day: room for a household or clinic of a few devices
+// behind one address, while stopping one address from minting install ids to get more
+const DEFAULT_NETWORK_DAILY_QUOTAS: Record<UsageRoute, number> = {
+  analyze: 600000,
+  meals: 40000,
+}
+
+function quotaFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isInteger(value) && value >= 0 ? value : fallback
+}
+
+// Overridable with e.g. DAILY_QUOTA_MEALS=20000 or DAILY_QUOTA_MEALS_PER_IP=80000;
+// 0 turns a quota off
+const DAILY_QUOTAS: Record<QuotaScope, Record<UsageRoute, number>> = {
+  device: {
+    analyze: quotaFromEnv('DAILY_QUOTA_ANALYZE', DEFAULT_DAILY_QUOTAS.analyze),
+    meals: quotaFromEnv('DAILY_QUOTA_MEALS', DEFAULT_DAILY_QUOTAS.meals),
+  },
+  network: {
+    analyze: quotaFromEnv('DAILY_QUOTA_ANALYZE_PER_IP', DEFAULT_NETWORK_DAILY_QUOTAS.analyze),
+    meals: quotaFromEnv('DAILY_QUOTA_MEALS_PER_IP', DEFAULT_NETWORK_DAILY_QUOTAS.meals),
+  },
+}
+
+function emptyLedger(): UsageLedgerData {
+  return { totals: {}, clients: {}, networks: {} }
+}
+
+export function createMemoryUsageStore(): UsageStore {
+  let data = emptyLedger()
+
+  return {
+    read: () => data,
+    update: (change) => {
+      data = change(data)
+    },
+  }
+}
+
+/**
+ * Ledger kept in a JSON file, shared by every process on the same disk
+ */
+export function createFileUsageStore(filePath: string = DEFAULT_USAGE_FILE): UsageStore {
+  const file = createJsonFile<UsageLedgerData>(filePath, {
+    name: 'usage ledger',
+    empty: emptyLedger,
+    revive: (saved) => ({ ...emptyLedger(), ...(saved as Partial<UsageLedgerData>) }),
+  })
+
+  return {
+    read: file.read,
+    update: (change) => {
+      try {
+        file.update(change)
+      } catch (error) {
+        // Serve the request rather than fail it over bookkeeping
+        console.error('Could not update usage ledger:', error)
+      }
+    },
+  }
+}
+
+// Kept in a JSON file by default; set USAGE_STORE=memory to keep it in memory only
+let store: UsageStore = process.env.USAGE_STORE === 'memory'
+  ? createMemoryUsageStore()
+  : createFileUsageStore(process.env.USAGE_FILE || undefined)
+
+/**
+ * Swap the storage backend, e.g. for an in-memory store in tests
+ */
+export function setUsageStore(next: UsageStore): void {
+  store = next
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+}
+
+function addUsage(routes: UsageByRoute, route: UsageRoute, usage: TokenUsage): void {
+  const current = routes[route] ?? { requests: 0, inputTokens: 0, outputTokens: 0 }
+  routes[route] = {
+    requests: current.requests + 1,
+    inputTokens: current.inputTokens + usage.inputTokens,
+    outputTokens: current.outputTokens + usage.outputTokens,
+  }
+}
+
+function estimateCostUsd({ inputTokens, outputTokens }: TokenUsage): number {
+  const cost = (inputTokens * PRICE_PER_MILLION_INPUT_TOKENS + outputTokens * PRICE_PER_MILLION_OUTPUT_TOKENS) / 1e6
+  return Math.round(cost * 10000) / 10000
+}
+
+/**
+ * Ledger keys for the caller: its install id when it sends a valid install token,
+ * otherwise its IP, so clients without one share a device quota per network; and its IP
+ * for the network quota. Null for a client that cannot be identified.
+ */
+export function getUsageKey(request: Request): UsageKey | null {
+  const installId = verifyInstallToken(getInstallToken(request))
+  const ip = getClientIdentifier(request)
+  if (!ip) {
+    return null
+  }
+  return { client: installId ?? `ip:${ip}`, network: `ip:${ip}` }
+}
+
+function quotaStatus(
+  entry: { day: string; routes: UsageByRoute } | undefined,
+  scope: QuotaScope,
+  route: UsageRoute,
+  now: Date
+): QuotaStatus {
+  const limit = DAILY_QUOTAS[scope][route]
+  const usage = entry?.day === dayKey(now) ? entry.routes[route] : undefined
+  const used = usage ? usage.inputTokens + usage.outputTokens : 0
+
+  return { allowed: limit === 0 || used < limit, route, scope, used, limit, resetAt: nextUtcMidnight(now) }
+}
+
+/**
+ * Whether a client and its network still have quota left today for a route. Checked
+ * before calling Claude; the call that crosses the limit is allowed to finish.
+ */
+export function checkUsageQuota(key: UsageKey, route: UsageRoute, now: Date = new Date()): QuotaStatus {
+  const data = store.read()
+  const device = quotaStatus(data.clients[key.client], 'device', route, now)
+  if (!device.allowed) {
+    return device
+  }
+  const network = quotaStatus(data.networks[key.network], 'network', route, now)
+  return network.allowed ? device : network
+}
+
+/**
+ * Add the tokens one Claude call spent to the client's and its network's usage and the
+ * day's totals
+ */
+export function recordUsage(key: UsageKey, route: UsageRoute, usage: TokenUsage, now: Date = new Date()): void {
+  store.update((data) => addUsageToLedger(data, key, route, usage, now))
+}
+
+function addUsageToLedger(
+  data: UsageLedgerData,
+  key: UsageKey,
+  route: UsageRoute,
+  usage: TokenUsage,
+  now: Date
+): UsageLedgerData {
+  const day = dayKey(now)
+
+  // Drop per-client usage from earlier days and totals past the retention period
+  const oldestDay = dayKey(new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000))
+  const clients = Object.fromEntries(Object.entries(data.clients).filter(([, client]) => client.day === day))
+  const networks = Object.fromEntries(Object.entries(data.networks).filter(([, network]) => network.day === day))
+  const totals = Object.fromEntries(Object.entries(data.totals).filter(([totalDay]) => totalDay >= oldestDay))
+
+  const isNewClient = !clients[key.client]
+  const dayTotals = totals[day] ?? { clients: 0, routes: {} }
+  const nextClient = { day, routes: { ...clients[key.client]?.routes } }
+  const nextNetwork = { day, routes: { ...networks[key.network]?.routes } }
+  const nextTotals = { clients: dayTotals.clients + (isNewClient ? 1 : 0), routes: { ...dayTotals.routes } }
+  addUsage(nextClient.routes, route, usage)
+  addUsage(nextNetwork.routes, route, usage)
+  addUsage(nextTotals.routes, route, usage)
+
+  return {
+    ...data,
+    clients: { ...clients, [key.client]: nextClient },
+    networks: { ...networks, [key.network]: nextNetwork },
+    totals: { ...totals, [day]: nextTotals },
+  }
+}
+
+/**
+ * Totals and estimated cost for each of the last `days` days that had any usage
+ */
+export function summarizeUsage(days: number, now: Date = new Date()): UsageSummary {
+  const oldestDay = dayKey(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000))
+  const grandTotal: TokenUsage & { requests: number } = { requests: 0, inputTokens: 0, outputTokens: 0 }
+
+  const summaries = Object.entries(store.read().totals)
+    .filter(([day]) => day >= oldestDay)
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, { clients, routes }]) => {
+      const dayTotal = { requests: 0, inputTokens: 0, outputTokens: 0 }
+      for (const usage of Object.values(routes)) {
+        dayTotal.requests += usage.requests
+        dayTotal.inputTokens += usage.inputTokens
+        dayTotal.outputTokens += usage.outputTokens
+      }
+      grandTotal.requests += dayTotal.requests
+      grandTotal.inputTokens += dayTotal.inputTokens
+      grandTotal.outputTokens += dayTotal.outputTokens
+      return { day, clients, ...dayTotal, estimatedCostUsd: estimateCostUsd(dayTotal), routes }
+    })
+
+  return { days: summaries, totals: { ...grandTotal, estimatedCostUsd: estimateCostUsd(grandTotal) } }
+}
+
+/**
+ * The 429 response for a client or network that has used up today's quota
+ */
+export function quotaExceededResponse(status: QuotaStatus): NextResponse {
+  const body: QuotaExceededError = {
+    error: `Daily usage limit reached for this ${status.scope}. Please try again tomorrow.`,
+    code: QUOTA_EXCEEDED_CODE,
+    route: status.route,
+    scope: status.scope,
+    resetAt: status.resetAt.toISOString(),
+  }
+  return NextResponse.json(body, {
+    status: 429,
+    headers: { 'Retry-After': String(Math.ceil((status.resetAt.getTime() - Date.now()) / 1000)) },
+  })
+}
@@ -0,0 +1,45 @@
+/**
+ * Usage Quotas
+ * Shared by the server-side usage ledger and the pages that call the Claude-backed routes:
+ * the routes with a quota and the error returned once a device or network has used up its
+ * daily allowance.
+ */
+
+export type UsageRoute = 'analyze' | 'meals'
+
+// Quotas are kept per device and, more generously, per network (client IP)
+export type QuotaScope = 'device' | 'network'
+
+export const QUOTA_EXCEEDED_CODE = 'quota_exceeded'
+
+// Body of the 429 response sent when a daily quota is used up
+export interface QuotaExceededError {
+  error: string
+  code: typeof QUOTA_EXCEEDED_CODE
+  route: UsageRoute
+  scope: QuotaScope
+  resetAt: string // ISO timestamp of the next UTC midnight
+}
+
+export function isQuotaExceededError(body: unknown): body is QuotaExceededError {
+  return typeof body === 'object' && body !== null && (body as { code?: unknown }).code === QUOTA_EXCEEDED_CODE
+}
+
+/**
+ * Explain a used-up quota to the patient, with the reset time in their own time zone
+ */
+export function describeQuotaExceeded(body: QuotaExceededError): string {
+  const resetAt = new Date(body.resetAt)
+  const reset = isNaN(resetAt.getTime())
+    ? 'tomorrow'
+    : `at ${resetAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+  // Older servers did not send a scope
+  const where = body.scope === 'network' ? 'your network' : 'this device'
+
+  if (body.route === 'analyze') {
+    return `You've reached today's limit for food analyses on ${where}. You can analyze more ${reset}. ` +
+      'Foods in your Analysis History and scanned barcodes you have already checked still work.'
+  }
+  return `You've reached today's limit for meal suggestions on ${where}. Today's menu is saved, and you can ` +
+    `get new suggestions ${reset}.`
+}
@@ -3,11 +3,30 @@
  * Provides schema validation for API inputs and data
  */
 
+import { NUTRIENT_KEYS, NUTRIENT_UNITS, type AnalysisResult, type NutrientKey } from './analysis'
+
 export interface ValidationResult {
   valid: boolean
   errors: string[]
 }
 
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'interval'; everyDays: number } // e.g. every other day = 2
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday ... 6 = Saturday
+
+export interface TaperPhase {
+  days: number // Length of this phase; phases run back to back from the start date
+  dosage: string
+}
+
+export interface MedicationSchedule {
+  recurrence: RecurrenceRule
+  startDate: string // YYYY-MM-DD
+  endDate: string | null // YYYY-MM-DD, inclusive; null for ongoing medications
+  taperPhases: TaperPhase[] // After the last phase the medication continues at its regular dosage
+}
+
 /**
  * Validate medication data structure
  */
@@ -15,9 +34,75 @@ export interface Medication {
   id: string
   name: string
   dosage: string
-  times: string[]
+  times: string[] // Times of day (HH:MM) on each dose day
   notes: string
   withFood: boolean
+  createdAt?: string // ISO timestamp; missing on medications saved before dose tracking
+  schedule?: MedicationSchedule // Missing on older medications, which repeat daily
+}
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+export function isValidDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_KEY_REGEX.test(value) && !isNaN(Date.parse(value))
+}
+
+export function validateMedicationSchedule(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid schedule'] }
+  }
+
+  const schedule = data as Record<string, unknown>
+  const recurrence = schedule.recurrence as Record<string, unknown> | undefined
+
+  if (!recurrence || typeof recurrence !== 'object') {
+    errors.push('Schedule recurrence is required')
+  } else if (recurrence.type === 'interval') {
+    if (typeof recurrence.everyDays !== 'number' || !Number.isInteger(recurrence.everyDays) ||
+      recurrence.everyDays < 2 || recurrence.everyDays > 90) {
+      errors.push('Interval must be a whole number of days between 2 and 90')
+    }
+  } else if (recurrence.type === 'weekdays') {
+    if (!Array.isArray(recurrence.days) || recurrence.days.length === 0 ||
+      !recurrence.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+      errors.push('Choose at least one weekday')
+    }
+  } else if (recurrence.type !== 'daily') {
+    errors.push('Invalid recurrence type')
+  }
+
+  if (!isValidDateKey(schedule.startDate)) {
+    errors.push('Start date must be a valid YYYY-MM-DD date')
+  }
+
+  if (schedule.endDate !== null) {
+    if (!isValidDateKey(schedule.endDate)) {
+      errors.push('End date must be a valid YYYY-MM-DD date')
+    } else if (isValidDateKey(schedule.startDate) && schedule.endDate < schedule.startDate) {
+      errors.push('End date must be on or after the start date')
+    }
+  }
+
+  if (!Array.isArray(schedule.taperPhases)) {
+    errors.push('Taper phases must be an array')
+  } else {
+    if (schedule.taperPhases.length > 20) {
+      errors.push('Maximum 20 taper phases allowed')
+    }
+    schedule.taperPhases.forEach((phase: unknown, i: number) => {
+      const p = phase as Record<string, unknown> | null
+      if (!p || typeof p !== 'object' || typeof p.days !== 'number' || !Number.isInteger(p.days) ||
+        p.days < 1 || p.days > 365) {
+        errors.push(`Taper phase ${i + 1}: length must be 1-365 days`)
+      } else if (typeof p.dosage !== 'string' || p.dosage.trim().length === 0 || p.dosage.length > 200) {
+        errors.push(`Taper phase ${i + 1}: dosage must be 1-200 characters`)
+      }
+    })
+  }
+
+  return { valid: errors.length === 0, errors }
 }
 
 export function validateMedication(data: unknown): ValidationResult {
@@ -60,6 +145,15 @@ export function validateMedication(data: unknown): ValidationResult {
     errors.push('withFood must be a boolean')
   }
 
+  if (med.createdAt !== undefined && (typeof med.createdAt !== 'string' || isNaN(Date.parse(med.createdAt)))) {
+    errors.push('Invalid createdAt timestamp')
+  }
+
+  if (med.schedule !== undefined) {
+    const scheduleValidation = validateMedicationSchedule(med.schedule)
+    errors.push(...scheduleValidation.errors)
+  }
+
   return { valid: errors.length === 0, errors }
 }
 
@@ -87,6 +181,279 @@ export function validateMedications(data: unknown): ValidationResult {
   return { valid: errors.length === 0, errors }
 }
 
+/**
+ * Validate dose event data structure
+ */
+export const DOSE_STATUSES = ['taken', 'missed', 'snoozed'] as const
+export type DoseStatus = typeof DOSE_STATUSES[number]
+
+export const DOSE_SOURCES = ['app', 'notification', 'auto'] as const
+export type DoseSource = typeof DOSE_SOURCES[number]
+
+export interface DoseEvent {
+  id: string
+  medicationId: string
+  scheduledTime: string // ISO timestamp of the reminder slot
+  actualTime: string | null // ISO timestamp the dose was taken or snoozed
+  status: DoseStatus
+  source: DoseSource
+}
+
+export function validateDoseEvent(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid dose event'] }
+  }
+
+  const event = data as Record<string, unknown>
+
+  if (typeof event.id !== 'string' || event.id.length === 0) {
+    errors.push('Invalid dose event ID')
+  }
+
+  if (typeof event.medicationId !== 'string' || event.medicationId.length === 0) {
+    errors.push('Invalid medication ID')
+  }
+
+  if (typeof event.scheduledTime !== 'string' || isNaN(Date.parse(event.scheduledTime))) {
+    errors.push('Invalid scheduled time')
+  }
+
+  if (event.actualTime !== null && (typeof event.actualTime !== 'string' || isNaN(Date.parse(event.actualTime)))) {
+    errors.push('Invalid actual time')
+  }
+
+  if (typeof event.status !== 'string' || !DOSE_STATUSES.includes(event.status as DoseStatus)) {
+    errors.push('Invalid dose status')
+  }
+
+  if (typeof event.source !== 'string' || !DOSE_SOURCES.includes(event.source as DoseSource)) {
+    errors.push('Invalid dose source')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate patient profile data structure
+ */
+export const ORGAN_TYPES = ['kidney', 'kidney-pancreas', 'liver', 'heart', 'lung', 'other'] as const
+export type OrganType = typeof ORGAN_TYPES[number]
+
+export interface PatientProfile {
+  transplantDate: string | null // YYYY-MM-DD
+  organType: OrganType
+  immunosuppressants: string[] // Names taken from the saved medication list
+  sodiumTargetMg: number | null // Daily targets set by the care team
+  potassiumTargetMg: number | null
+  phosphorusTargetMg: number | null
+  hasDiabetes: boolean
+  allergies: string[]
+}
+
+// Profile text is included in model prompts, so only allow plain label-like text
+const PROFILE_TEXT_REGEX = /^[\p{L}\p{N} ().,'/+-]+$/u
+
+function validateProfileTextList(value: unknown, field: string, maxItems: number, maxLength: number, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`)
+    return
+  }
+
+  if (value.length > maxItems) {
+    errors.push(`Maximum ${maxItems} ${field} allowed`)
+  }
+
+  for (const item of value) {
+    if (typeof item !== 'string' || item.trim().length === 0 || item.length > maxLength || !PROFILE_TEXT_REGEX.test(item)) {
+      errors.push(`Invalid ${field} entry: ${String(item).slice(0, maxLength)}`)
+    }
+  }
+}
+
+function validateDailyTarget(value: unknown, field: string, max: number, errors: string[]): void {
+  if (value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value <= 0 || value > max)) {
+    errors.push(`${field} must be a whole number between 1 and ${max}, or empty`)
+  }
+}
+
+export function validatePatientProfile(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid profile data'] }
+  }
+
+  const profile = data as Record<string, unknown>
+
+  if (profile.transplantDate !== null) {
+    if (!isValidDateKey(profile.transplantDate)) {
+      errors.push('Transplant date must be a valid YYYY-MM-DD date')
+    }
+  }
+
+  if (typeof profile.organType !== 'string' || !ORGAN_TYPES.includes(profile.organType as OrganType)) {
+    errors.push('Invalid organ type')
+  }
+
+  validateProfileTextList(profile.immunosuppressants, 'immunosuppressants', 20, 200, errors)
+
+  validateDailyTarget(profile.sodiumTargetMg, 'Sodium target', 10000, errors)
+  validateDailyTarget(profile.potassiumTargetMg, 'Potassium target', 10000, errors)
+  validateDailyTarget(profile.phosphorusTargetMg, 'Phosphorus target', 5000, errors)
+
+  if (typeof profile.hasDiabetes !== 'boolean') {
+    errors.push('hasDiabetes must be a boolean')
+  }
+
+  validateProfileTextList(profile.allergies, 'allergies', 20, 60, errors)
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate intake diary entry data structure
+ */
+export interface IntakeEntry {
+  id: string
+  foodName: string
+  servings: number
+  loggedAt: string // ISO timestamp
+  nutrients: Record<NutrientKey, number | null> // Per serving, in NUTRIENT_UNITS
+}
+
+export function validateIntakeEntry(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid intake entry'] }
+  }
+
+  const entry = data as Record<string, unknown>
+
+  if (typeof entry.id !== 'string' || entry.id.length === 0) {
+    errors.push('Invalid entry ID')
+  }
+
+  if (typeof entry.foodName !== 'string' || entry.foodName.trim().length === 0 || entry.foodName.length > 200) {
+    errors.push('Food name must be 1-200 characters')
+  }
+
+  if (typeof entry.servings !== 'number' || !isFinite(entry.servings) || entry.servings <= 0 || entry.servings > 50) {
+    errors.push('Servings must be a number between 0 and 50')
+  }
+
+  if (typeof entry.loggedAt !== 'string' || isNaN(Date.parse(entry.loggedAt))) {
+    errors.push('Invalid logged time')
+  }
+
+  if (!entry.nutrients || typeof entry.nutrients !== 'object') {
+    errors.push('nutrients is required')
+  } else {
+    const nutrients = entry.nutrients as Record<string, unknown>
+    for (const key of NUTRIENT_KEYS) {
+      const amount = nutrients[key]
+      if (amount !== null && (typeof amount !== 'number' || !isFinite(amount) || amount < 0)) {
+        errors.push(`${key} must be a non-negative number or null`)
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate saved meal recommendation structure
+ */
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snacks'] as const
+export type MealType = typeof MEAL_TYPES[number]
+
+export interface MealRecommendation {
+  id: string
+  name: string
+  description: string
+  ingredients: string[]
+  tips: string
+  mealType: MealType
+}
+
+export interface DailyMenu {
+  date: string // YYYY-MM-DD
+  meals: Record<MealType, MealRecommendation[]>
+}
+
+export function validateMealRecommendation(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid meal'] }
+  }
+
+  const meal = data as Record<string, unknown>
+
+  if (typeof meal.id !== 'string' || meal.id.length === 0 || meal.id.length > 100) {
+    errors.push('Invalid meal ID')
+  }
+
+  if (typeof meal.name !== 'string' || meal.name.trim().length === 0 || meal.name.length > 200) {
+    errors.push('Meal name must be 1-200 characters')
+  }
+
+  if (typeof meal.description !== 'string' || meal.description.length > 2000) {
+    errors.push('Meal description must be under 2000 characters')
+  }
+
+  if (!Array.isArray(meal.ingredients) || meal.ingredients.length > 50 ||
+      !meal.ingredients.every((item) => typeof item === 'string' && item.length <= 200)) {
+    errors.push('Ingredients must be a list of up to 50 items')
+  }
+
+  if (typeof meal.tips !== 'string' || meal.tips.length > 2000) {
+    errors.push('Meal tips must be under 2000 characters')
+  }
+
+  if (typeof meal.mealType !== 'string' || !MEAL_TYPES.includes(meal.mealType as MealType)) {
+    errors.push('Invalid meal type')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+export function validateDailyMenu(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid daily menu'] }
+  }
+
+  const menu = data as Record<string, unknown>
+
+  if (!isValidDateKey(menu.date)) {
+    errors.push('Menu date must be a valid YYYY-MM-DD date')
+  }
+
+  if (!menu.meals || typeof menu.meals !== 'object') {
+    errors.push('meals is required')
+  } else {
+    // A meal type is missing after its cached meals were refreshed
+    for (const [mealType, meals] of Object.entries(menu.meals)) {
+      if (!MEAL_TYPES.includes(mealType as MealType) || !Array.isArray(meals)) {
+        errors.push(`Invalid meals for ${mealType}`)
+        continue
+      }
+      meals.forEach((meal, index) => {
+        const result = validateMealRecommendation(meal)
+        if (!result.valid) {
+          errors.push(`${mealType} ${index + 1}: ${result.errors.join(', ')}`)
+        }
+      })
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
 /**
  * Validate push subscription object
  */
@@ -133,6 +500,41 @@ export function validateNotificationPayload(data: unknown): ValidationResult {
   return { valid: errors.length === 0, errors }
 }
 
+/**
+ * Validate a medication schedule synced for server-sent reminders
+ */
+export function validateReminderSync(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid reminder schedule'] }
+  }
+
+  const sync = data as Record<string, unknown>
+
+  const medsValidation = validateMedications(sync.medications)
+  errors.push(...medsValidation.errors)
+
+  if (typeof sync.timeZone !== 'string' || sync.timeZone.length > 100 || !isValidTimeZone(sync.timeZone)) {
+    errors.push('Invalid time zone')
+  }
+
+  if (sync.privateReminders !== undefined && typeof sync.privateReminders !== 'boolean') {
+    errors.push('Invalid private reminders setting')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * Validate base64 image data
  */
@@ -159,6 +561,163 @@ export function validateBase64Image(data: unknown): ValidationResult {
   return { valid: errors.length === 0, errors }
 }
 
+/**
+ * Validate the structured food analysis returned by the model
+ */
+export function validateAnalysisResult(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid analysis data'] }
+  }
+
+  const result = data as Record<string, unknown>
+
+  if (typeof result.productName !== 'string' || result.productName.length > 200) {
+    errors.push('productName must be a string under 200 characters')
+  }
+
+  if (typeof result.verdict !== 'string' || !['safe', 'caution', 'avoid'].includes(result.verdict.toLowerCase())) {
+    errors.push('verdict must be one of safe, caution or avoid')
+  }
+
+  if (typeof result.summary !== 'string' || result.summary.trim().length === 0) {
+    errors.push('summary is required')
+  }
+
+  if (result.servingSize !== null && typeof result.servingSize !== 'string') {
+    errors.push('servingSize must be a string or null')
+  }
+
+  if (typeof result.ingredientsText !== 'string') {
+    errors.push('ingredientsText must be a string')
+  }
+
+  if (!result.nutrients || typeof result.nutrients !== 'object') {
+    errors.push('nutrients is required')
+  } else {
+    const nutrients = result.nutrients as Record<string, unknown>
+    for (const key of NUTRIENT_KEYS) {
+      const nutrient = nutrients[key] as Record<string, unknown> | undefined
+      if (!nutrient || typeof nutrient !== 'object') {
+        errors.push(`Missing nutrient: ${key}`)
+        continue
+      }
+      if (nutrient.amount !== null && (typeof nutrient.amount !== 'number' || !isFinite(nutrient.amount) || nutrient.amount < 0)) {
+        errors.push(`${key}.amount must be a non-negative number or null`)
+      }
+      if (nutrient.unit !== NUTRIENT_UNITS[key]) {
+        errors.push(`${key}.unit must be ${NUTRIENT_UNITS[key]}`)
+      }
+      if (nutrient.percentDailyValue !== null && (typeof nutrient.percentDailyValue !== 'number' || !isFinite(nutrient.percentDailyValue))) {
+        errors.push(`${key}.percentDailyValue must be a number or null`)
+      }
+    }
+  }
+
+  if (!Array.isArray(result.interactionIngredients) ||
+    !result.interactionIngredients.every((i) => typeof i === 'string')) {
+    errors.push('interactionIngredients must be an array of strings')
+  }
+
+  const guidance = result.guidance as Record<string, unknown> | undefined
+  if (!guidance || typeof guidance !== 'object' ||
+    typeof guidance.early !== 'string' || typeof guidance.late !== 'string') {
+    errors.push('guidance must include early and late text')
+  }
+
+  if (typeof result.analysis !== 'string') {
+    errors.push('analysis must be a string')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate a cached barcode analysis
+ */
+export interface CachedProduct {
+  barcode: string // Normalized GTIN: EAN-8, EAN-13 or GTIN-14 digits
+  result: AnalysisResult
+  analyzedAt: string // ISO timestamp
+}
+
+export function validateCachedProduct(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid cached product'] }
+  }
+
+  const product = data as Record<string, unknown>
+
+  if (typeof product.barcode !== 'string' || !/^(\d{8}|\d{13}|\d{14})$/.test(product.barcode)) {
+    errors.push('Barcode must be 8, 13 or 14 digits')
+  }
+
+  if (typeof product.analyzedAt !== 'string' || isNaN(Date.parse(product.analyzedAt))) {
+    errors.push('Invalid analysis time')
+  }
+
+  errors.push(...validateSavedAnalysis(product.result))
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Validate a saved analysis history entry
+ */
+export interface AnalysisHistoryEntry {
+  id: string
+  analyzedAt: string // ISO timestamp
+  thumbnail: string | null // Small JPEG data URL of the first photo
+  barcode: string | null
+  result: AnalysisResult
+}
+
+const THUMBNAIL_REGEX = /^data:image\/jpeg;base64,[A-Za-z0-9+/=]+$/
+const MAX_THUMBNAIL_LENGTH = 50000
+
+export function validateAnalysisHistoryEntry(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Invalid history entry'] }
+  }
+
+  const entry = data as Record<string, unknown>
+
+  if (typeof entry.id !== 'string' || entry.id.length === 0) {
+    errors.push('Invalid entry ID')
+  }
+
+  if (typeof entry.analyzedAt !== 'string' || isNaN(Date.parse(entry.analyzedAt))) {
+    errors.push('Invalid analysis time')
+  }
+
+  if (entry.thumbnail !== null &&
+    (typeof entry.thumbnail !== 'string' || entry.thumbnail.length > MAX_THUMBNAIL_LENGTH || !THUMBNAIL_REGEX.test(entry.thumbnail))) {
+    errors.push('thumbnail must be a small JPEG data URL or null')
+  }
+
+  if (entry.barcode !== null && (typeof entry.barcode !== 'string' || !/^(\d{8}|\d{13}|\d{14})$/.test(entry.barcode))) {
+    errors.push('Barcode must be 8, 13 or 14 digits or null')
+  }
+
+  errors.push(...validateSavedAnalysis(entry.result))
+
+  return { valid: errors.length === 0, errors }
+}
+
+// Results saved on the device also carry the fields /api/analyze adds after the model responds
+function validateSavedAnalysis(data: unknown): string[] {
+  const result = validateAnalysisResult(data)
+  if (result.valid && !Array.isArray((data as Record<string, unknown>).interactionMatches)) {
+    return ['interactionMatches must be an array']
+  }
+  return result.errors
+}
+
 /**
  * Sanitize string input to prevent XSS
  */
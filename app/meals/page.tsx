@@ -3,22 +3,11 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { secureGet, secureSet } from '@/app/lib/secure-storage'
-
-type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks'
-
-interface MealRecommendation {
-  id: string
-  name: string
-  description: string
-  ingredients: string[]
-  tips: string
-  mealType: MealType
-}
-
-interface DailyMenu {
-  date: string
-  meals: Record<MealType, MealRecommendation[]>
-}
+import { loadStoredData, saveStoredData } from '@/app/lib/stored-data'
+import { getInstallHeaders } from '@/app/lib/install-token'
+import { PROFILE_STORAGE_KEY } from '@/app/lib/patient-profile'
+import { describeQuotaExceeded, isQuotaExceededError } from '@/app/lib/usage-quota'
+import type { DailyMenu, MealRecommendation, MealType, PatientProfile } from '@/app/lib/validation'
 
 export default function MealsPage() {
   const [selectedMeal, setSelectedMeal] = useState<MealType | null>(null)
@@ -28,27 +17,30 @@ export default function MealsPage() {
   const [favorites, setFavorites] = useState<MealRecommendation[]>([])
   const [showFavorites, setShowFavorites] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState(false)
 
   const getTodayKey = () => new Date().toISOString().split('T')[0]
 
   useEffect(() => {
-    // Check if user has purchased the feature
-    const purchased = secureGet<string>('mealsPurchased', '')
-    if (purchased === 'true') {
-      setIsUnlocked(true)
-    }
+    const load = async () => {
+      // Check if user has purchased the feature
+      const purchased = await secureGet<string>('mealsPurchased', '')
+      if (purchased === 'true') {
+        setIsUnlocked(true)
+      }
 
-    // Load favorites
-    const savedFavorites = secureGet<MealRecommendation[]>('mealFavorites', [])
-    if (Array.isArray(savedFavorites)) {
-      setFavorites(savedFavorites)
+      // Load favorites
+      setFavorites(await loadStoredData<MealRecommendation[]>('mealFavorites'))
+      setLoaded(true)
     }
+    load()
   }, [])
 
-  // Save favorites to secure storage whenever they change
+  // Save favorites to secure storage whenever they change (once loaded, so the empty initial list never overwrites them)
   useEffect(() => {
-    secureSet('mealFavorites', favorites)
-  }, [favorites])
+    if (!loaded) return
+    saveStoredData('mealFavorites', favorites)
+  }, [favorites, loaded])
 
   const handlePurchase = async () => {
     const confirmed = window.confirm(
@@ -57,7 +49,7 @@ export default function MealsPage() {
     )
 
     if (confirmed) {
-      secureSet('mealsPurchased', 'true')
+      await secureSet('mealsPurchased', 'true')
       setIsUnlocked(true)
       alert('Purchase successful! You now have access to meal recommendations.')
     }
@@ -70,7 +62,7 @@ export default function MealsPage() {
     // Check for cached daily menu
     const todayKey = getTodayKey()
     const emptyMenu: DailyMenu = { date: todayKey, meals: { breakfast: [], lunch: [], dinner: [], snacks: [] } }
-    const cachedMenu = secureGet<DailyMenu>(`dailyMenu_${todayKey}`, emptyMenu)
+    const cachedMenu = (await loadStoredData<DailyMenu | null>(`dailyMenu_${todayKey}`)) ?? emptyMenu
 
     if (cachedMenu && cachedMenu.meals[mealType] && cachedMenu.meals[mealType].length > 0) {
       setRecommendations(cachedMenu.meals[mealType])
@@ -85,14 +77,17 @@ export default function MealsPage() {
     try {
       const response = await fetch('/api/meals', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mealType }),
+        headers: { 'Content-Type': 'application/json', ...(await getInstallHeaders()) },
+        body: JSON.stringify({
+          mealType,
+          profile: await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY),
+        }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate meals')
+        throw new Error(isQuotaExceededError(data) ? describeQuotaExceeded(data) : data.error || 'Failed to generate meals')
       }
 
       // Add IDs and mealType to each recommendation
@@ -107,7 +102,7 @@ export default function MealsPage() {
       // Cache in daily menu
       const existingMenu = cachedMenu.date === todayKey ? cachedMenu : emptyMenu
       existingMenu.meals[mealType] = mealsWithIds
-      secureSet(`dailyMenu_${todayKey}`, existingMenu)
+      await saveStoredData(`dailyMenu_${todayKey}`, existingMenu)
 
       // Clean up old cached menus (keep only today and yesterday)
       cleanOldMenus()
@@ -153,11 +148,10 @@ export default function MealsPage() {
 
     // Clear cached meals for this type
     const todayKey = getTodayKey()
-    const cachedMenu = localStorage.getItem(`dailyMenu_${todayKey}`)
+    const cachedMenu = await loadStoredData<DailyMenu | null>(`dailyMenu_${todayKey}`)
     if (cachedMenu) {
-      const menu: DailyMenu = JSON.parse(cachedMenu)
-      delete menu.meals[selectedMeal]
-      localStorage.setItem(`dailyMenu_${todayKey}`, JSON.stringify(menu))
+      delete cachedMenu.meals[selectedMeal]
+      await saveStoredData(`dailyMenu_${todayKey}`, cachedMenu)
     }
 
     // Generate new meals
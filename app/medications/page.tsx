@@ -3,7 +3,37 @@
 import { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 import { secureGet, secureSet } from '@/app/lib/secure-storage'
-import { validateMedications, type Medication } from '@/app/lib/validation'
+import { loadQuarantine, loadStoredData, saveStoredData } from '@/app/lib/stored-data'
+import {
+  validateMedication,
+  type DoseEvent,
+  type Medication,
+  type MedicationSchedule,
+  type RecurrenceRule,
+} from '@/app/lib/validation'
+import { INTERACTION_RULES } from '@/app/lib/interactions'
+import {
+  applyQueuedDoseActions,
+  drainQueuedDoseActions,
+  findNearestDoseTime,
+  loadDoseEvents,
+  reconcileMissedDoses,
+  saveDoseEvents,
+  upsertDoseEvent,
+} from '@/app/lib/dose-history'
+import {
+  WEEKDAY_LABELS,
+  createDefaultSchedule,
+  describeSchedule,
+  expandDoses,
+  getDosageOn,
+  getMedicationSchedule,
+  toDateKey,
+  type ScheduledDose,
+} from '@/app/lib/medication-schedule'
+import { setSwState } from '@/app/lib/sw-database'
+import { LOCK_SETTINGS_KEY, getLockSettings, updateLockedReminderTimes } from '@/app/lib/app-lock'
+import { DEVICE_TOKEN_KEY, SERVER_REMINDERS_KEY, getPushHeaders, syncReminderSchedule } from '@/app/lib/reminder-sync'
 
 interface PushConfig {
   vapidPublicKey: string
@@ -12,6 +42,7 @@ interface PushConfig {
 
 export default function MedicationsPage() {
   const [medications, setMedications] = useState<Medication[]>([])
+  const [doseEvents, setDoseEvents] = useState<DoseEvent[]>([])
   const [showAddForm, setShowAddForm] = useState(false)
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default')
   const [editingMed, setEditingMed] = useState<Medication | null>(null)
@@ -21,6 +52,13 @@ export default function MedicationsPage() {
   const [isIOS, setIsIOS] = useState(false)
   const [isStandalone, setIsStandalone] = useState(false)
   const [showIOSInstructions, setShowIOSInstructions] = useState(false)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [serverReminders, setServerReminders] = useState(false)
+  const [pushExpired, setPushExpired] = useState(false)
+  const [deviceToken, setDeviceToken] = useState<string | null>(null)
+  const [lockEnabled, setLockEnabled] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const [quarantinedCount, setQuarantinedCount] = useState(0)
 
   // Form state
   const [newMed, setNewMed] = useState({
@@ -29,6 +67,7 @@ export default function MedicationsPage() {
     times: ['08:00'],
     notes: '',
     withFood: false,
+    schedule: createDefaultSchedule(),
   })
 
   // Common transplant medications
@@ -42,15 +81,34 @@ export default function MedicationsPage() {
   ]
 
   useEffect(() => {
-    // Load medications from secure storage
-    const saved = secureGet<Medication[]>('medications', [])
-    const validation = validateMedications(saved)
-    if (validation.valid) {
-      setMedications(saved)
-    } else {
-      console.warn('Invalid medication data, using empty array:', validation.errors)
-      setMedications([])
+    const pushAvailable = 'serviceWorker' in navigator && 'PushManager' in window
+
+    const loadSavedData = async () => {
+      // Load medications from secure storage; invalid ones are quarantined rather than lost
+      const loadedMedications = await loadStoredData<Medication[]>('medications')
+      setMedications(loadedMedications)
+      setQuarantinedCount((await loadQuarantine()).filter((entry) => entry.storageKey === 'medications').length)
+      setLoaded(true)
+
+      // Load dose history, including doses marked from notifications while the app was closed
+      await syncDoseHistory(loadedMedications)
+
+      setServerReminders((await secureGet<boolean>(SERVER_REMINDERS_KEY, false)) === true)
+      const savedToken = await secureGet<string | null>(DEVICE_TOKEN_KEY, null)
+      setDeviceToken(savedToken)
+
+      // Check existing push subscription
+      if (pushAvailable) {
+        const registration = await navigator.serviceWorker.ready
+        const subscription = await registration.pushManager.getSubscription()
+        setPushSubscription(subscription)
+        // Subscriptions made before device tokens existed need to register again for one
+        if (subscription && !savedToken) {
+          registerSubscription(subscription).catch(err => console.error('Failed to register push subscription:', err))
+        }
+      }
     }
+    loadSavedData()
 
     // Check notification permission
     if ('Notification' in window) {
@@ -67,7 +125,6 @@ export default function MedicationsPage() {
     setIsStandalone(standalone)
 
     // Check if push notifications are supported
-    const pushAvailable = 'serviceWorker' in navigator && 'PushManager' in window
     setPushSupported(pushAvailable)
 
     // Get VAPID public key from server
@@ -79,29 +136,91 @@ export default function MedicationsPage() {
         }
       })
       .catch(err => console.log('Push config not available:', err))
+  }, [])
 
-    // Check existing push subscription
-    if (pushAvailable) {
-      navigator.serviceWorker.ready.then(registration => {
-        registration.pushManager.getSubscription().then(subscription => {
-          setPushSubscription(subscription)
-        })
-      })
+  useEffect(() => {
+    // Save medications to secure storage, once loaded so the empty initial list never overwrites them
+    if (!loaded) return
+    saveStoredData('medications', medications)
+    updateLockedReminderTimes(medications)
+  }, [medications, loaded])
+
+  useEffect(() => {
+    // Follow the app lock, including when it is turned on or off in another tab
+    setLockEnabled(getLockSettings().enabled)
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === LOCK_SETTINGS_KEY) setLockEnabled(getLockSettings().enabled)
     }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
   }, [])
 
   useEffect(() => {
-    // Save medications to secure storage
-    secureSet('medications', medications)
+    // Keep the server's copy of the schedule current when server reminders are on
+    if (!serverReminders || !pushSubscription || !deviceToken) return
+
+    syncReminderSchedule(pushSubscription.endpoint, deviceToken, medications, lockEnabled)
+      .then(res => {
+        // The server dropped the subscription (e.g. the push service reported it expired) or no longer knows this device
+        if (res.status === 404 || res.status === 401) handlePushExpired()
+      })
+      .catch(err => console.error('Reminder schedule sync failed:', err))
+  }, [medications, serverReminders, pushSubscription, deviceToken, lockEnabled])
+
+  const syncDoseHistory = async (meds: Medication[]) => {
+    const actions = await drainQueuedDoseActions()
+    const withActions = applyQueuedDoseActions(await loadDoseEvents(), actions, meds)
+    setDoseEvents(await saveDoseEvents(reconcileMissedDoses(meds, withActions)))
+  }
+
+  useEffect(() => {
+    // Record "Mark as Taken" / "Snooze" taps from push notifications
+    if (!('serviceWorker' in navigator)) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'MEDICATION_TAKEN' || event.data?.type === 'MEDICATION_SNOOZED') {
+        syncDoseHistory(medications)
+      } else if (event.data?.type === 'PUSH_SUBSCRIPTION_CHANGED') {
+        // The service worker re-subscribed after the browser rotated the endpoint
+        if (event.data.data?.deviceToken) {
+          setDeviceToken(event.data.data.deviceToken)
+          secureSet(DEVICE_TOKEN_KEY, event.data.data.deviceToken)
+        }
+        navigator.serviceWorker.ready
+          .then(registration => registration.pushManager.getSubscription())
+          .then(subscription => setPushSubscription(subscription))
+      }
+    }
+
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
   }, [medications])
 
+  const markTaken = async (med: Medication) => {
+    const now = new Date()
+    const scheduledTime = findNearestDoseTime(med, now)
+    if (!scheduledTime) return
+
+    const events = await loadDoseEvents()
+    setDoseEvents(await saveDoseEvents(upsertDoseEvent(events, med.id, scheduledTime, 'taken', 'app', now)))
+  }
+
+  // The dose event for the reminder slot closest to now, if any
+  const getCurrentDoseEvent = (med: Medication): DoseEvent | undefined => {
+    const scheduledTime = findNearestDoseTime(med, new Date())
+    if (!scheduledTime) return undefined
+    const scheduledIso = scheduledTime.toISOString()
+    return doseEvents.find((e) => e.medicationId === med.id && e.scheduledTime === scheduledIso)
+  }
+
   // Local notification fallback for when push isn't available
-  const sendLocalNotification = useCallback((med: Medication) => {
+  const sendLocalNotification = useCallback((med: Medication, dose: ScheduledDose) => {
     if (notificationPermission === 'granted') {
       new Notification(`Time to take ${med.name}`, {
-        body: `Dosage: ${med.dosage}${med.withFood ? '\nTake with food' : ''}${med.notes ? `\nNote: ${med.notes}` : ''}`,
+        body: `Dosage: ${dose.dosage}${med.withFood ? '\nTake with food' : ''}${med.notes ? `\nNote: ${med.notes}` : ''}`,
         icon: '/icon-192.png',
-        tag: med.id,
+        // Same tag as the server-sent reminder, so the two replace each other
+        tag: `medication-${med.id}_${dose.time.getTime()}`,
       })
     }
   }, [notificationPermission])
@@ -109,12 +228,13 @@ export default function MedicationsPage() {
   useEffect(() => {
     // Set up reminder checks every minute (local fallback)
     const checkReminders = () => {
-      const now = new Date()
-      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
+      const minuteStart = new Date()
+      minuteStart.setSeconds(0, 0)
+      const minuteEnd = new Date(minuteStart.getTime() + 60000)
 
       medications.forEach((med) => {
-        if (med.times.includes(currentTime)) {
-          sendLocalNotification(med)
+        for (const dose of expandDoses(med, minuteStart, minuteEnd)) {
+          sendLocalNotification(med, dose)
         }
       })
     }
@@ -162,13 +282,7 @@ export default function MedicationsPage() {
       })
 
       setPushSubscription(subscription)
-
-      // Send subscription to server
-      await fetch('/api/push/subscribe', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ subscription })
-      })
+      await registerSubscription(subscription, deviceToken)
 
       console.log('Push subscription successful')
     } catch (error) {
@@ -176,6 +290,75 @@ export default function MedicationsPage() {
     }
   }
 
+  // Send the subscription to the server and keep the device token it issues. Saving over a
+  // subscription the server already has needs the token issued for it.
+  const registerSubscription = async (subscription: PushSubscription, currentToken: string | null = null) => {
+    const response = await fetch('/api/push/subscribe', {
+      method: 'POST',
+      headers: currentToken ? getPushHeaders(currentToken) : { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subscription })
+    })
+    if (response.status === 401) {
+      // The server knows this subscription under a token we no longer have; start over with a new one
+      const { applicationServerKey } = subscription.options
+      await subscription.unsubscribe()
+      const registration = await navigator.serviceWorker.ready
+      const fresh = await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey })
+      setPushSubscription(fresh)
+      return registerSubscription(fresh)
+    }
+    if (!response.ok) {
+      throw new Error(`Subscription was not saved (${response.status})`)
+    }
+
+    const { deviceToken: token } = await response.json()
+    setDeviceToken(token)
+    await secureSet(DEVICE_TOKEN_KEY, token)
+    // The service worker needs both to fetch reminders and to replace the subscription if the browser rotates it
+    await setSwState('deviceToken', token)
+    await setSwState('pushEndpoint', subscription.endpoint)
+  }
+
+  // The push service no longer accepts this subscription; drop it so the user can subscribe again
+  const handlePushExpired = async () => {
+    setPushExpired(true)
+    setPushSubscription(null)
+    setDeviceToken(null)
+    secureSet(DEVICE_TOKEN_KEY, null)
+    try {
+      const registration = await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription()
+      await subscription?.unsubscribe()
+    } catch (error) {
+      console.error('Failed to clear expired push subscription:', error)
+    }
+  }
+
+  const resubscribeToPush = async () => {
+    await subscribeToPush()
+    setPushExpired(false)
+  }
+
+  const toggleServerReminders = async (enabled: boolean) => {
+    setServerReminders(enabled)
+    secureSet(SERVER_REMINDERS_KEY, enabled)
+
+    if (enabled) {
+      // Let the service worker pick up due doses in the background where supported
+      const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+        periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> }
+      }
+      registration.periodicSync?.register('check-medications', { minInterval: 15 * 60 * 1000 })
+        .catch(err => console.log('Periodic sync not available:', err))
+    } else if (pushSubscription && deviceToken) {
+      await fetch('/api/push/schedule', {
+        method: 'DELETE',
+        headers: getPushHeaders(deviceToken),
+        body: JSON.stringify({ endpoint: pushSubscription.endpoint })
+      }).catch(err => console.error('Failed to remove reminder schedule:', err))
+    }
+  }
+
   const addMedication = () => {
     if (!newMed.name || !newMed.dosage) return
 
@@ -186,20 +369,92 @@ export default function MedicationsPage() {
       times: newMed.times.filter((t) => t),
       notes: newMed.notes,
       withFood: newMed.withFood,
+      createdAt: new Date().toISOString(),
+      schedule: newMed.schedule,
+    }
+
+    const validation = validateMedication(medication)
+    if (!validation.valid) {
+      setFormErrors(validation.errors)
+      return
     }
 
     setMedications([...medications, medication])
-    setNewMed({ name: '', dosage: '', times: ['08:00'], notes: '', withFood: false })
+    setNewMed({ name: '', dosage: '', times: ['08:00'], notes: '', withFood: false, schedule: createDefaultSchedule() })
+    setFormErrors([])
     setShowAddForm(false)
   }
 
   const updateMedication = () => {
     if (!editingMed) return
 
+    const validation = validateMedication(editingMed)
+    if (!validation.valid) {
+      setFormErrors(validation.errors)
+      return
+    }
+
     setMedications(medications.map((m) => (m.id === editingMed.id ? editingMed : m)))
+    setFormErrors([])
     setEditingMed(null)
   }
 
+  const startEditing = (med: Medication) => {
+    // Older medications have no schedule yet; edit them as "every day"
+    setEditingMed({ ...med, schedule: getMedicationSchedule(med) })
+  }
+
+  const closeForm = () => {
+    setShowAddForm(false)
+    setEditingMed(null)
+    setFormErrors([])
+  }
+
+  const currentSchedule = editingMed ? getMedicationSchedule(editingMed) : newMed.schedule
+
+  const updateSchedule = (changes: Partial<MedicationSchedule>) => {
+    if (editingMed) {
+      setEditingMed({ ...editingMed, schedule: { ...getMedicationSchedule(editingMed), ...changes } })
+    } else {
+      setNewMed({ ...newMed, schedule: { ...newMed.schedule, ...changes } })
+    }
+  }
+
+  const changeRecurrenceType = (type: RecurrenceRule['type']) => {
+    if (type === 'interval') {
+      updateSchedule({ recurrence: { type, everyDays: 2 } })
+    } else if (type === 'weekdays') {
+      updateSchedule({ recurrence: { type, days: [1, 2, 3, 4, 5] } })
+    } else {
+      updateSchedule({ recurrence: { type: 'daily' } })
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    if (currentSchedule.recurrence.type !== 'weekdays') return
+    const days = currentSchedule.recurrence.days
+    updateSchedule({
+      recurrence: {
+        type: 'weekdays',
+        days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort(),
+      },
+    })
+  }
+
+  const addTaperPhase = () => {
+    updateSchedule({ taperPhases: [...currentSchedule.taperPhases, { days: 7, dosage: '' }] })
+  }
+
+  const updateTaperPhase = (index: number, changes: { days?: number; dosage?: string }) => {
+    updateSchedule({
+      taperPhases: currentSchedule.taperPhases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)),
+    })
+  }
+
+  const removeTaperPhase = (index: number) => {
+    updateSchedule({ taperPhases: currentSchedule.taperPhases.filter((_, i) => i !== index) })
+  }
+
   const deleteMedication = (id: string) => {
     if (confirm('Are you sure you want to delete this medication?')) {
       setMedications(medications.filter((m) => m.id !== id))
@@ -237,12 +492,12 @@ export default function MedicationsPage() {
   }
 
   const testNotification = async () => {
-    if (pushSubscription && pushConfig) {
+    if (pushSubscription && pushConfig && deviceToken) {
       // Try sending via push API first
       try {
         const response = await fetch('/api/push/send', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: getPushHeaders(deviceToken),
           body: JSON.stringify({
             endpoint: pushSubscription.endpoint,
             title: 'Test Reminder',
@@ -253,6 +508,14 @@ export default function MedicationsPage() {
         if (response.ok) {
           return
         }
+
+        const data = await response.json().catch(() => ({}))
+        if (response.status === 410 || response.status === 401 || data.status === 'expired') {
+          handlePushExpired()
+        } else if (response.status === 429) {
+          alert('Too many notifications were sent. Please try the test again in a few minutes.')
+          return
+        }
       } catch (error) {
         console.log('Push test failed, using local notification:', error)
       }
@@ -317,6 +580,15 @@ export default function MedicationsPage() {
           </div>
         )}
 
+        {quarantinedCount > 0 && (
+          <div className="notification-denied quarantine-notice">
+            <span>
+              {quarantinedCount} saved medication{quarantinedCount === 1 ? '' : 's'} could not be loaded and {quarantinedCount === 1 ? 'was' : 'were'} set
+              aside. <Link href="/backup">Review them</Link>
+            </span>
+          </div>
+        )}
+
         {/* Notification Permission */}
         <div className="notification-section">
           {notificationPermission === 'default' && (
@@ -352,6 +624,34 @@ export default function MedicationsPage() {
               </button>
             </div>
           )}
+          {notificationPermission === 'granted' && pushExpired && (
+            <div className="notification-denied push-expired">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3"/>
+                <line x1="12" y1="9" x2="12" y2="13"/>
+                <line x1="12" y1="17" x2="12.01" y2="17"/>
+              </svg>
+              <span>Push reminders stopped working on this device. Re-enable them to keep getting reminders when the app is closed.</span>
+              <button className="test-btn" onClick={resubscribeToPush} disabled={!pushConfig?.vapidPublicKey}>
+                Re-enable
+              </button>
+            </div>
+          )}
+          {notificationPermission === 'granted' && pushSubscription && (
+            <div className="checkbox-group server-reminders">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={serverReminders}
+                  onChange={(e) => toggleServerReminders(e.target.checked)}
+                />
+                Remind me even when the app is closed
+              </label>
+              <p className="form-hint">
+                Stores your medication names, doses and times encrypted on our server so it can send reminders. Notes stay on this device. Turn off to delete them.
+              </p>
+            </div>
+          )}
           {notificationPermission === 'denied' && (
             <div className="notification-denied">
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -378,16 +678,9 @@ export default function MedicationsPage() {
             <strong>Avoid these foods/drinks</strong> while taking immunosuppressants:
           </p>
           <ul>
-            <li>Herbal supplements</li>
-            <li>Green tea (including matcha)</li>
-            <li>All herbal teas (including Earl Grey)</li>
-            <li>Grapefruit (including juice)</li>
-            <li>Pomegranate (including juice)</li>
-            <li>Dragonfruit/pitaya (including juice)</li>
-            <li>Jackfruit</li>
-            <li>Pomelo (including juice)</li>
-            <li>Seville oranges (often in marmalade)</li>
-            <li>Starfruit</li>
+            {INTERACTION_RULES.map((rule) => (
+              <li key={rule.id}>{rule.label}</li>
+            ))}
           </ul>
           <p className="warning-note">
             These can cause dangerous changes in medication levels in your blood.
@@ -398,9 +691,21 @@ export default function MedicationsPage() {
         <div className="medications-list">
           <div className="list-header">
             <h2>Your Medications</h2>
-            <button className="add-btn" onClick={() => setShowAddForm(true)}>
-              + Add
-            </button>
+            <div className="list-header-actions">
+              {medications.length > 0 && (
+                <Link href="/adherence" className="history-link">
+                  Adherence
+                </Link>
+              )}
+              {medications.length > 0 && (
+                <Link href="/report" className="history-link">
+                  Report
+                </Link>
+              )}
+              <button className="add-btn" onClick={() => setShowAddForm(true)}>
+                + Add
+              </button>
+            </div>
           </div>
 
           {medications.length === 0 ? (
@@ -415,50 +720,69 @@ export default function MedicationsPage() {
               </button>
             </div>
           ) : (
-            medications.map((med) => (
-              <div key={med.id} className="medication-card">
-                <div className="med-header">
-                  <h3>{med.name}</h3>
-                  <div className="med-actions">
-                    <button className="edit-btn" onClick={() => setEditingMed(med)}>
-                      Edit
-                    </button>
-                    <button className="delete-btn" onClick={() => deleteMedication(med.id)}>
-                      Delete
-                    </button>
+            medications.map((med) => {
+              const currentDose = getCurrentDoseEvent(med)
+              const schedule = getMedicationSchedule(med)
+              const todayDosage = getDosageOn(med, toDateKey(new Date()))
+              return (
+                <div key={med.id} className="medication-card">
+                  <div className="med-header">
+                    <h3>{med.name}</h3>
+                    <div className="med-actions">
+                      <button className="edit-btn" onClick={() => startEditing(med)}>
+                        Edit
+                      </button>
+                      <button className="delete-btn" onClick={() => deleteMedication(med.id)}>
+                        Delete
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <p className="med-dosage">{med.dosage}</p>
-                <div className="med-times">
-                  {med.times.map((time, i) => (
-                    <span key={i} className="time-badge">
+                  <p className="med-dosage">
+                    {todayDosage !== med.dosage ? `Today: ${todayDosage}` : med.dosage}
+                  </p>
+                  <p className="med-schedule">{describeSchedule(schedule)}</p>
+                  <div className="med-times">
+                    {med.times.map((time, i) => (
+                      <span key={i} className="time-badge">
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <circle cx="12" cy="12" r="10"/>
+                          <polyline points="12 6 12 12 16 14"/>
+                        </svg>
+                        {time}
+                      </span>
+                    ))}
+                  </div>
+                  {med.withFood && (
+                    <span className="food-badge">
                       <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <circle cx="12" cy="12" r="10"/>
-                        <polyline points="12 6 12 12 16 14"/>
+                        <path d="M3 2v7c0 1.1.9 2 2 2h4a2 2 0 0 0 2-2V2"/>
+                        <path d="M7 2v20"/>
+                        <path d="M21 15V2a5 5 0 0 0-5 5v6c0 1.1.9 2 2 2h3zm0 0v7"/>
                       </svg>
-                      {time}
+                      Take with food
                     </span>
-                  ))}
+                  )}
+                  {med.notes && <p className="med-notes">{med.notes}</p>}
+                  <div className="dose-status">
+                    {currentDose?.status === 'taken' && currentDose.actualTime ? (
+                      <span className="dose-taken">
+                        Taken at {new Date(currentDose.actualTime).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                    ) : (
+                      <button className="taken-btn" onClick={() => markTaken(med)}>
+                        Mark as Taken
+                      </button>
+                    )}
+                  </div>
                 </div>
-                {med.withFood && (
-                  <span className="food-badge">
-                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                      <path d="M3 2v7c0 1.1.9 2 2 2h4a2 2 0 0 0 2-2V2"/>
-                      <path d="M7 2v20"/>
-                      <path d="M21 15V2a5 5 0 0 0-5 5v6c0 1.1.9 2 2 2h3zm0 0v7"/>
-                    </svg>
-                    Take with food
-                  </span>
-                )}
-                {med.notes && <p className="med-notes">{med.notes}</p>}
-              </div>
-            ))
+              )
+            })
           )}
         </div>
 
         {/* Add/Edit Form Modal */}
         {(showAddForm || editingMed) && (
-          <div className="modal-overlay" onClick={() => { setShowAddForm(false); setEditingMed(null); }}>
+          <div className="modal-overlay" onClick={closeForm}>
             <div className="modal" onClick={(e) => e.stopPropagation()}>
               <h2>{editingMed ? 'Edit Medication' : 'Add Medication'}</h2>
 
@@ -521,6 +845,102 @@ export default function MedicationsPage() {
                 </button>
               </div>
 
+              <div className="form-group">
+                <label>Repeat</label>
+                <select
+                  value={currentSchedule.recurrence.type}
+                  onChange={(e) => changeRecurrenceType(e.target.value as RecurrenceRule['type'])}
+                >
+                  <option value="daily">Every day</option>
+                  <option value="interval">Every few days</option>
+                  <option value="weekdays">On specific weekdays</option>
+                </select>
+                {currentSchedule.recurrence.type === 'interval' && (
+                  <div className="inline-field">
+                    <span>Every</span>
+                    <input
+                      type="number"
+                      min="2"
+                      max="90"
+                      value={currentSchedule.recurrence.everyDays}
+                      onChange={(e) => updateSchedule({ recurrence: { type: 'interval', everyDays: parseInt(e.target.value, 10) || 2 } })}
+                    />
+                    <span>days</span>
+                  </div>
+                )}
+                {currentSchedule.recurrence.type === 'weekdays' && (
+                  <div className="weekday-picker">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        className={`weekday-btn ${currentSchedule.recurrence.type === 'weekdays' && currentSchedule.recurrence.days.includes(day) ? 'selected' : ''}`}
+                        onClick={() => toggleWeekday(day)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="form-group date-range-group">
+                <div>
+                  <label>Start Date</label>
+                  <input
+                    type="date"
+                    value={currentSchedule.startDate}
+                    onChange={(e) => updateSchedule({ startDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label>End Date</label>
+                  <input
+                    type="date"
+                    value={currentSchedule.endDate ?? ''}
+                    onChange={(e) => updateSchedule({ endDate: e.target.value || null })}
+                  />
+                </div>
+              </div>
+              <p className="form-hint schedule-hint">Leave the end date empty for ongoing medications. Set it for fixed courses like valganciclovir or Bactrim.</p>
+
+              <div className="form-group">
+                <label>Taper Phases (optional)</label>
+                {currentSchedule.taperPhases.map((phase, index) => (
+                  <div key={index} className="time-input-row taper-row">
+                    <input
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={phase.days}
+                      onChange={(e) => updateTaperPhase(index, { days: parseInt(e.target.value, 10) || 1 })}
+                      aria-label={`Phase ${index + 1} length in days`}
+                    />
+                    <span>days at</span>
+                    <input
+                      type="text"
+                      value={phase.dosage}
+                      onChange={(e) => updateTaperPhase(index, { dosage: e.target.value })}
+                      placeholder="e.g., 20mg"
+                      aria-label={`Phase ${index + 1} dosage`}
+                    />
+                    <button
+                      type="button"
+                      className="remove-time-btn"
+                      onClick={() => removeTaperPhase(index)}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button type="button" className="add-time-btn" onClick={addTaperPhase}>
+                  + Add Taper Phase
+                </button>
+                {currentSchedule.taperPhases.length > 0 && (
+                  <p className="form-hint">Phases run back to back from the start date. After the last phase, the regular dosage continues.</p>
+                )}
+              </div>
+
               <div className="form-group checkbox-group">
                 <label>
                   <input
@@ -550,13 +970,18 @@ export default function MedicationsPage() {
                 />
               </div>
 
+              {formErrors.length > 0 && (
+                <div className="error-message">
+                  {formErrors.map((error, i) => (
+                    <p key={i}>{error}</p>
+                  ))}
+                </div>
+              )}
+
               <div className="modal-actions">
                 <button
                   className="cancel-btn"
-                  onClick={() => {
-                    setShowAddForm(false)
-                    setEditingMed(null)
-                  }}
+                  onClick={closeForm}
                 >
                   Cancel
                 </button>
@@ -1,18 +1,48 @@
 'use client'
 
-import React, { useState, useRef, useEffect, DragEvent, ChangeEvent } from 'react'
+import { useState, useRef, useEffect, DragEvent, ChangeEvent } from 'react'
 import Link from 'next/link'
-
-interface AnalysisResult {
-  verdict: 'safe' | 'caution' | 'avoid'
-  summary: string
-  analysis: string
-}
+import { VERDICT_HEADINGS, readAnalysisStream, type AnalysisResult, type Verdict } from '@/app/lib/analysis'
+import { loadStoredData } from '@/app/lib/stored-data'
+import { getInstallHeaders } from '@/app/lib/install-token'
+import { describeQuotaExceeded, isQuotaExceededError } from '@/app/lib/usage-quota'
+import { PROFILE_STORAGE_KEY, getTransplantPhase } from '@/app/lib/patient-profile'
+import { logServing } from '@/app/lib/intake-log'
+import { getCachedProduct, saveCachedProduct } from '@/app/lib/product-cache'
+import { addAnalysisHistoryEntry, createThumbnail } from '@/app/lib/analysis-history'
+import {
+  PREPROCESS_STAGE_LABELS,
+  formatBytes,
+  isHeic,
+  preprocessImage,
+  type CropRect,
+  type PreprocessStage,
+} from '@/app/lib/image-preprocess'
+import AnalysisResultView from '@/app/components/AnalysisResultView'
+import BarcodeScanner from '@/app/components/BarcodeScanner'
+import ImageCropper from '@/app/components/ImageCropper'
+import SafeAnalysisContent from '@/app/components/SafeAnalysisContent'
+import type { CachedProduct, PatientProfile } from '@/app/lib/validation'
+
+const MAX_IMAGES = 4
 
 interface ImageFile {
   id: string
-  data: string
   name: string
+  source: File // Original photo, kept so a crop can use the full resolution
+  data: string // Processed data URL that is uploaded; empty until processing finishes
+  preview: string // Processed but uncropped, shown in the cropper
+  crop: CropRect | null
+  stage: PreprocessStage | null // Set while the photo is being processed
+  bytes: number
+}
+
+// Verdict streamed ahead of the full result, once the server has checked the ingredients for interactions
+interface AnalysisPreview {
+  productName: string
+  verdict: Verdict
+  summary: string
+  analysis: string // Markdown received so far
 }
 
 export default function Home() {
@@ -30,35 +60,82 @@ export default function Home() {
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [result, setResult] = useState<AnalysisResult | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [logFoodName, setLogFoodName] = useState('')
+  const [logServings, setLogServings] = useState('1')
+  const [loggedMessage, setLoggedMessage] = useState<string | null>(null)
+  const [showScanner, setShowScanner] = useState(false)
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null) // Scanned, waiting for label photos
+  const [cachedProduct, setCachedProduct] = useState<CachedProduct | null>(null) // Result shown came from the cache
+  const [preview, setPreview] = useState<AnalysisPreview | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [croppingId, setCroppingId] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const analyzeAbortRef = useRef<AbortController | null>(null)
+
+  // Stop an analysis still streaming when the user leaves the page
+  useEffect(() => () => analyzeAbortRef.current?.abort(), [])
+
+  const updateImage = (id: string, updates: Partial<ImageFile>) => {
+    setImages(prev => prev.map(img => (img.id === id ? { ...img, ...updates } : img)))
+  }
+
+  // Shrink and re-encode on the device so uploads stay small on cellular connections
+  const processImage = async (id: string, file: File, crop: CropRect | null) => {
+    try {
+      const processed = await preprocessImage(file, crop, (stage) => updateImage(id, { stage }))
+      updateImage(id, {
+        data: processed.data,
+        bytes: processed.bytes,
+        stage: null,
+        ...(crop ? {} : { preview: processed.data }),
+      })
+    } catch (err) {
+      setImages(prev => prev.filter(img => img.id !== id))
+      setError(err instanceof Error ? err.message : 'Could not read that photo')
+    }
+  }
 
   const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    if (!file.type.startsWith('image/') && !isHeic(file)) {
       setError('Please upload an image file')
       return
     }
 
-    if (images.length >= 4) {
-      setError('Maximum 4 images allowed')
-      return
+    const newImage: ImageFile = {
+      id: crypto.randomUUID(),
+      name: file.name,
+      source: file,
+      data: '',
+      preview: '',
+      crop: null,
+      stage: 'reading',
+      bytes: 0,
     }
+    setImages(prev => [...prev, newImage])
+    setResult(null)
+    setCachedProduct(null)
+    setError(null)
+    processImage(newImage.id, file, null)
+  }
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      const newImage: ImageFile = {
-        id: Date.now().toString(),
-        data: e.target?.result as string,
-        name: file.name
-      }
-      setImages(prev => [...prev, newImage])
-      setResult(null)
-      setError(null)
+  const handleFiles = (files: FileList) => {
+    const selected = Array.from(files)
+    const room = Math.max(0, MAX_IMAGES - images.length)
+    selected.slice(0, room).forEach(file => handleFile(file))
+    if (selected.length > room) {
+      setError(`Maximum ${MAX_IMAGES} images allowed`)
     }
-    reader.readAsDataURL(file)
   }
 
-  const handleFiles = (files: FileList) => {
-    Array.from(files).forEach(file => handleFile(file))
+  const applyCrop = (crop: CropRect | null) => {
+    const image = images.find(img => img.id === croppingId)
+    setCroppingId(null)
+    if (!image) return
+
+    updateImage(image.id, { crop, stage: 'reading' })
+    setResult(null)
+    setCachedProduct(null)
+    processImage(image.id, image.source, crop)
   }
 
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
@@ -84,44 +161,138 @@ export default function Home() {
     }
   }
 
+  const showResult = (data: AnalysisResult) => {
+    setResult(data)
+    setLogFoodName(data.productName)
+    setLogServings('1')
+    setLoggedMessage(null)
+  }
+
+  const handleBarcode = async (barcode: string) => {
+    setShowScanner(false)
+    setError(null)
+
+    const cached = await getCachedProduct(barcode)
+    if (cached) {
+      // The profile may have changed since; show guidance for today's transplant phase
+      const profile = await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY)
+      showResult({ ...cached.result, transplantPhase: profile ? getTransplantPhase(profile) : null })
+      setCachedProduct(cached)
+      setPendingBarcode(null)
+    } else {
+      setResult(null)
+      setCachedProduct(null)
+      setPendingBarcode(barcode)
+    }
+  }
+
+  const handleReanalyze = () => {
+    if (!cachedProduct) return
+    setPendingBarcode(cachedProduct.barcode)
+    setCachedProduct(null)
+    setResult(null)
+    setImages([])
+  }
+
   const handleAnalyze = async () => {
-    if (images.length === 0) return
+    if (images.length === 0 || images.some(img => img.stage !== null)) return
 
+    const controller = new AbortController()
+    analyzeAbortRef.current = controller
     setIsAnalyzing(true)
+    setIsUploading(true)
     setError(null)
+    setPreview(null)
 
     try {
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await getInstallHeaders()),
         },
-        body: JSON.stringify({ images: images.map(img => img.data) }),
+        body: JSON.stringify({
+          images: images.map(img => img.data),
+          profile: await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY),
+        }),
+        signal: controller.signal,
       })
+      setIsUploading(false)
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Analysis failed')
+      if (!response.ok || !response.body) {
+        const data = await response.json()
+        throw new Error(isQuotaExceededError(data) ? describeQuotaExceeded(data) : data.error || 'Analysis failed')
       }
 
-      setResult(data)
+      const data = await readAnalysisStream(response.body, (event) => {
+        if (event.type === 'verdict') {
+          setPreview({ productName: event.productName, verdict: event.verdict, summary: event.summary, analysis: '' })
+        } else {
+          setPreview((prev) => prev && { ...prev, analysis: prev.analysis + event.text })
+        }
+      })
+
+      showResult(data)
+      setCachedProduct(null)
+      if (pendingBarcode) {
+        await saveCachedProduct(pendingBarcode, data)
+        setPendingBarcode(null)
+      }
+      // A full history should not hide the result the patient is waiting for
+      createThumbnail(images[0].data)
+        .then((thumbnail) => addAnalysisHistoryEntry(data, thumbnail, pendingBarcode))
+        .catch((err) => console.error('Failed to save analysis history:', err))
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
     } finally {
+      if (analyzeAbortRef.current === controller) {
+        analyzeAbortRef.current = null
+      }
+      setPreview(null)
+      setIsUploading(false)
       setIsAnalyzing(false)
     }
   }
 
+  // Cancelling closes the connection, which stops the request to the model on the server
+  const cancelAnalysis = () => {
+    analyzeAbortRef.current?.abort()
+  }
+
+  const handleLogServing = async () => {
+    if (!result) return
+
+    const servings = parseFloat(logServings)
+    if (isNaN(servings) || servings <= 0 || servings > 50) {
+      setError('Enter a number of servings between 0 and 50')
+      return
+    }
+
+    const entry = await logServing(result, logFoodName, servings)
+    setError(null)
+    setLoggedMessage(`Logged ${entry.servings} serving${entry.servings !== 1 ? 's' : ''} of ${entry.foodName}`)
+  }
+
   const removeImage = (id: string) => {
+    cancelAnalysis()
     setImages(prev => prev.filter(img => img.id !== id))
     setResult(null)
+    setCachedProduct(null)
   }
 
+  const isProcessing = images.some(img => img.stage !== null)
+  const uploadBytes = images.reduce((sum, img) => sum + img.bytes, 0)
+  const croppingImage = images.find(img => img.id === croppingId)
+
   const clearAllImages = () => {
+    cancelAnalysis()
     setImages([])
     setResult(null)
     setError(null)
+    setPendingBarcode(null)
+    setCachedProduct(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -157,11 +328,11 @@ export default function Home() {
             </div>
             <h3>Upload Nutrition Facts</h3>
             <p>Upload multiple images (nutrition facts + ingredients list)</p>
-            <p className="upload-hint">Up to 4 images allowed</p>
+            <p className="upload-hint">Up to {MAX_IMAGES} images, resized on your device before upload</p>
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.heic,.heif"
               className="hidden-input"
               onChange={handleFileSelect}
               multiple
@@ -173,7 +344,26 @@ export default function Home() {
               <div className="preview-grid">
                 {images.map((img) => (
                   <div key={img.id} className="preview-item">
-                    <img src={img.data} alt={img.name} className="preview-image-small" />
+                    {img.stage ? (
+                      <div className="preview-processing">
+                        <span className="spinner"></span>
+                        <span>{PREPROCESS_STAGE_LABELS[img.stage]}</span>
+                      </div>
+                    ) : (
+                      <>
+                        <img src={img.data} alt={img.name} className="preview-image-small" />
+                        <button
+                          className="crop-image-btn"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setCroppingId(img.id)
+                          }}
+                          disabled={isAnalyzing}
+                        >
+                          {img.crop ? 'Cropped' : 'Crop'}
+                        </button>
+                      </>
+                    )}
                     <button
                       className="remove-image-btn"
                       onClick={(e) => {
@@ -189,7 +379,7 @@ export default function Home() {
                     </button>
                   </div>
                 ))}
-                {images.length < 4 && (
+                {images.length < MAX_IMAGES && (
                   <div
                     className="add-more-btn"
                     onClick={() => fileInputRef.current?.click()}
@@ -202,70 +392,134 @@ export default function Home() {
                   </div>
                 )}
               </div>
-              <p className="image-count">{images.length} image{images.length !== 1 ? 's' : ''} selected</p>
+              <p className="image-count">
+                {images.length} image{images.length !== 1 ? 's' : ''} selected
+                {!isProcessing && (
+                  <> · {formatBytes(images.reduce((sum, img) => sum + img.source.size, 0))} reduced to {formatBytes(uploadBytes)}</>
+                )}
+              </p>
               <button className="clear-btn" onClick={clearAllImages}>
                 Clear All
               </button>
             </div>
           )}
+
+          <button className="scan-barcode-btn" onClick={() => setShowScanner(true)}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M3 7V5a2 2 0 0 1 2-2h2"/>
+              <path d="M17 3h2a2 2 0 0 1 2 2v2"/>
+              <path d="M21 17v2a2 2 0 0 1-2 2h-2"/>
+              <path d="M7 21H5a2 2 0 0 1-2-2v-2"/>
+              <line x1="7" y1="8" x2="7" y2="16"/>
+              <line x1="11" y1="8" x2="11" y2="16"/>
+              <line x1="14" y1="8" x2="14" y2="16"/>
+              <line x1="17" y1="8" x2="17" y2="16"/>
+            </svg>
+            Scan Barcode
+          </button>
+
+          {pendingBarcode && (
+            <div className="barcode-notice">
+              <span>
+                New product <strong>{pendingBarcode}</strong>. Add photos of the nutrition facts and ingredients;
+                the result will be saved for the next time you scan it.
+              </span>
+              <button className="barcode-notice-btn" onClick={() => setPendingBarcode(null)}>
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
 
         <button
           className="analyze-btn"
           onClick={handleAnalyze}
-          disabled={images.length === 0 || isAnalyzing}
+          disabled={images.length === 0 || isAnalyzing || isProcessing}
         >
-          {isAnalyzing ? (
+          {isProcessing ? (
             <span className="loading">
               <span className="spinner"></span>
-              Analyzing...
+              Preparing photos...
+            </span>
+          ) : isAnalyzing ? (
+            <span className="loading">
+              <span className="spinner"></span>
+              {isUploading ? `Uploading ${formatBytes(uploadBytes)}...` : 'Analyzing...'}
             </span>
           ) : (
             'Check Food Safety'
           )}
         </button>
 
+        {isAnalyzing && (
+          <button className="cancel-analysis-btn" onClick={cancelAnalysis}>
+            Cancel
+          </button>
+        )}
+
         {error && <div className="error-message">{error}</div>}
 
-        {result && (
+        {preview && (
           <div className="results-section">
-            <div className="results-header">
-              <span className={`verdict-icon ${result.verdict}`}>
-                {result.verdict === 'safe' && (
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"/>
-                    <polyline points="22 4 12 14.01 9 11.01"/>
-                  </svg>
-                )}
-                {result.verdict === 'caution' && (
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3"/>
-                    <line x1="12" y1="9" x2="12" y2="13"/>
-                    <line x1="12" y1="17" x2="12.01" y2="17"/>
-                  </svg>
-                )}
-                {result.verdict === 'avoid' && (
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <circle cx="12" cy="12" r="10"/>
-                    <line x1="15" y1="9" x2="9" y2="15"/>
-                    <line x1="9" y1="9" x2="15" y2="15"/>
-                  </svg>
-                )}
-              </span>
-              <h2>Analysis Results</h2>
-            </div>
-
-            <div className={`verdict ${result.verdict}`}>
-              <h3>
-                {result.verdict === 'safe' && 'Generally Safe for Post-Transplant Patients'}
-                {result.verdict === 'caution' && 'Use Caution - Check with Your Care Team'}
-                {result.verdict === 'avoid' && 'Best to Avoid After Transplant'}
-              </h3>
-              <p>{result.summary}</p>
+            <div className={`verdict ${preview.verdict}`}>
+              <h3>{VERDICT_HEADINGS[preview.verdict]}</h3>
+              <p>{preview.summary}</p>
             </div>
+            <p className="form-hint analysis-preview-hint">
+              Preliminary result for {preview.productName || 'this food'}. Still writing the full analysis...
+            </p>
+            {preview.analysis && (
+              <div className="analysis-content">
+                <SafeAnalysisContent text={preview.analysis} />
+              </div>
+            )}
+          </div>
+        )}
 
-            <div className="analysis-content">
-              <SafeAnalysisContent text={result.analysis} />
+        {result && (
+          <div className="results-section">
+            {cachedProduct && (
+              <div className="barcode-notice">
+                <span>
+                  Saved result from {new Date(cachedProduct.analyzedAt).toLocaleDateString()} for
+                  barcode <strong>{cachedProduct.barcode}</strong>. Re-analyze if the label has changed.
+                </span>
+                <button className="barcode-notice-btn" onClick={handleReanalyze}>
+                  Re-analyze
+                </button>
+              </div>
+            )}
+
+            <AnalysisResultView result={result} />
+
+            <div className="log-serving">
+              <h3>Log This Serving</h3>
+              <div className="log-serving-row">
+                <input
+                  type="text"
+                  value={logFoodName}
+                  onChange={(e) => setLogFoodName(e.target.value)}
+                  placeholder="Food name"
+                  aria-label="Food name"
+                />
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0.25"
+                  step="0.25"
+                  value={logServings}
+                  onChange={(e) => setLogServings(e.target.value)}
+                  aria-label="Servings eaten"
+                />
+                <button className="log-btn" onClick={handleLogServing}>
+                  Log
+                </button>
+              </div>
+              {loggedMessage && (
+                <p className="logged-message">
+                  {loggedMessage}. <Link href="/diary">View today&apos;s diary</Link>
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -312,80 +566,125 @@ export default function Home() {
             </span>
           </div>
         </Link>
-      </div>
 
-      {/* Footer with legal links */}
-      <footer className="app-footer">
-        <p className="copyright">&copy; {new Date().getFullYear()} TransplantFood. All rights reserved.</p>
-      </footer>
-    </main>
-  )
-}
+        <Link href="/diary" className="feature-link">
+          <div className="feature-promo">
+            <span className="feature-icon">
+              <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20"/>
+              </svg>
+            </span>
+            <div>
+              <h3>Daily Food Diary</h3>
+              <p>Track sodium, potassium, phosphorus, protein and sugar against your daily limits</p>
+            </div>
+            <span className="arrow">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </span>
+          </div>
+        </Link>
 
-// Safe text rendering component - no dangerouslySetInnerHTML to prevent XSS
-function SafeAnalysisContent({ text }: { text: string }) {
-  const lines = text.split('\n')
-  const elements: React.ReactNode[] = []
-  let currentList: string[] = []
-  let key = 0
-
-  const flushList = () => {
-    if (currentList.length > 0) {
-      elements.push(
-        <ul key={key++}>
-          {currentList.map((item, i) => (
-            <li key={i}>{formatInlineText(item)}</li>
-          ))}
-        </ul>
-      )
-      currentList = []
-    }
-  }
+        <Link href="/history" className="feature-link">
+          <div className="feature-promo">
+            <span className="feature-icon">
+              <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="12" cy="12" r="10"/>
+                <polyline points="12 6 12 12 16 14"/>
+              </svg>
+            </span>
+            <div>
+              <h3>Analysis History</h3>
+              <p>Look up foods you have already checked without new photos</p>
+            </div>
+            <span className="arrow">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </span>
+          </div>
+        </Link>
 
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed) {
-      flushList()
-      continue
-    }
+        <Link href="/profile" className="feature-link">
+          <div className="feature-promo">
+            <span className="feature-icon">
+              <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M19 21v-2a4 4 0 0 0-4-4H9a4 4 0 0 0-4 4v2"/>
+                <circle cx="12" cy="7" r="4"/>
+              </svg>
+            </span>
+            <div>
+              <h3>My Profile</h3>
+              <p>Set your transplant date and care team targets for personalized advice</p>
+            </div>
+            <span className="arrow">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </span>
+          </div>
+        </Link>
 
-    if (trimmed.startsWith('### ')) {
-      flushList()
-      elements.push(<h3 key={key++}>{formatInlineText(trimmed.slice(4))}</h3>)
-    } else if (trimmed.startsWith('## ')) {
-      flushList()
-      elements.push(<h3 key={key++}>{formatInlineText(trimmed.slice(3))}</h3>)
-    } else if (trimmed.startsWith('- ')) {
-      currentList.push(trimmed.slice(2))
-    } else {
-      flushList()
-      elements.push(<p key={key++}>{formatInlineText(trimmed)}</p>)
-    }
-  }
-  flushList()
+        <Link href="/backup" className="feature-link">
+          <div className="feature-promo">
+            <span className="feature-icon">
+              <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                <polyline points="7 10 12 15 17 10"/>
+                <line x1="12" y1="15" x2="12" y2="3"/>
+              </svg>
+            </span>
+            <div>
+              <h3>Backup & Restore</h3>
+              <p>Save an encrypted copy of your data or move it to a new phone</p>
+            </div>
+            <span className="arrow">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </span>
+          </div>
+        </Link>
 
-  return <>{elements}</>
-}
+        <Link href="/security" className="feature-link">
+          <div className="feature-promo">
+            <span className="feature-icon">
+              <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
+                <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
+              </svg>
+            </span>
+            <div>
+              <h3>App Lock</h3>
+              <p>Protect your health data with a PIN or Face ID</p>
+            </div>
+            <span className="arrow">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </span>
+          </div>
+        </Link>
+      </div>
 
-// Safe inline text formatting - handles **bold** without HTML injection
-function formatInlineText(text: string): React.ReactNode {
-  const parts: React.ReactNode[] = []
-  let lastIndex = 0
-  let key = 0
-  const boldRegex = /\*\*(.*?)\*\*/g
-  let match
-
-  while ((match = boldRegex.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      parts.push(text.slice(lastIndex, match.index))
-    }
-    parts.push(<strong key={key++}>{match[1]}</strong>)
-    lastIndex = match.index + match[0].length
-  }
+      {croppingImage && (
+        <ImageCropper
+          image={croppingImage.preview}
+          initialCrop={croppingImage.crop}
+          onApply={applyCrop}
+          onClose={() => setCroppingId(null)}
+        />
+      )}
 
-  if (lastIndex < text.length) {
-    parts.push(text.slice(lastIndex))
-  }
+      {showScanner && (
+        <BarcodeScanner onDetected={handleBarcode} onClose={() => setShowScanner(false)} />
+      )}
 
-  return parts.length > 0 ? parts : text
+      {/* Footer with legal links */}
+      <footer className="app-footer">
+        <p className="copyright">&copy; {new Date().getFullYear()} TransplantFood. All rights reserved.</p>
+      </footer>
+    </main>
+  )
 }
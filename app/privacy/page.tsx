@@ -36,6 +36,11 @@ export default function PrivacyPolicyPage() {
             This data is stored locally on your device.</li>
             <li><strong>Food Images:</strong> Photos of nutrition labels you upload for analysis. These images are
             processed but not permanently stored on our servers.</li>
+            <li><strong>Patient Profile:</strong> Your transplant date, organ type, immunosuppressants, daily nutrient
+            targets, diabetes status and food allergies. This data is stored locally on your device and sent with
+            analysis and meal requests only to personalize the results.</li>
+            <li><strong>Food Diary:</strong> Foods you log, servings eaten and their nutrient values, stored
+            encrypted on your device.</li>
             <li><strong>Meal Preferences:</strong> Your saved favorite meals and dietary preferences, stored locally
             on your device.</li>
           </ul>
@@ -44,6 +49,13 @@ export default function PrivacyPolicyPage() {
           <ul>
             <li><strong>Push Notification Tokens:</strong> If you enable notifications, we collect device tokens
             to send medication reminders.</li>
+            <li><strong>Server Reminder Schedule:</strong> Only if you turn on &quot;Remind me even when the app is
+            closed&quot;, your medication names, doses and reminder times (not your notes) are stored encrypted on
+            our server and deleted when you turn it off.</li>
+            <li><strong>Install ID and IP Address:</strong> A random ID created for this installation of the app,
+            and your IP address, are used to limit how often analyses and meal suggestions can be requested. Only
+            short-lived request counts and today&apos;s usage are kept per device; past days are kept only as totals
+            across all users. None of this is linked to your health data.</li>
             <li><strong>Usage Data:</strong> Anonymous analytics about app usage to improve our service.</li>
             <li><strong>Device Information:</strong> Device type, operating system, and browser type for
             compatibility purposes.</li>
@@ -72,11 +84,19 @@ export default function PrivacyPolicyPage() {
           <p>
             <strong>Image Processing:</strong> When you upload a nutrition label for analysis, the image is sent
             to our AI service (Anthropic Claude) for processing. Images are not permanently stored and are deleted
-            after analysis.
+            after analysis. When you scan a product barcode, the camera image is read on your device and only the
+            barcode number is kept, together with the analysis result, so the product can be looked up again
+            without sending new photos. Your analysis history, including a small thumbnail of the first photo of
+            each food, is kept encrypted on your device only.
           </p>
           <p>
             <strong>Security Measures:</strong> We implement appropriate technical and organizational measures to
             protect your personal information, including encryption in transit (HTTPS) and secure API communications.
+            Data saved on your device is encrypted with AES-GCM using a key that is generated on your device and
+            cannot be exported from it. If you turn on the optional app lock, that key is itself protected by your
+            PIN, the app locks itself after a period without use, and medication reminders sent while it is on do not
+            name the medication. Backups you create are encrypted with a passphrase you choose and are only saved
+            where you put them.
           </p>
         </section>
 
@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { loadStoredData, saveStoredData } from '@/app/lib/stored-data'
+import {
+  validatePatientProfile,
+  ORGAN_TYPES,
+  type Medication,
+  type OrganType,
+  type PatientProfile,
+} from '@/app/lib/validation'
+import {
+  DEFAULT_PROFILE,
+  ORGAN_LABELS,
+  PROFILE_STORAGE_KEY,
+  getTransplantPhase,
+  isImmunosuppressant,
+} from '@/app/lib/patient-profile'
+
+export default function ProfilePage() {
+  const [profile, setProfile] = useState<PatientProfile>(DEFAULT_PROFILE)
+  const [medications, setMedications] = useState<Medication[]>([])
+  const [allergiesText, setAllergiesText] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      const meds = await loadStoredData<Medication[]>('medications')
+      setMedications(meds)
+
+      const savedProfile = await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY)
+      if (savedProfile) {
+        setProfile(savedProfile)
+        setAllergiesText(savedProfile.allergies.join(', '))
+      } else {
+        // First visit: pre-select immunosuppressants from the medication list
+        setProfile({
+          ...DEFAULT_PROFILE,
+          immunosuppressants: meds.map((m) => m.name).filter(isImmunosuppressant),
+        })
+      }
+    }
+    load()
+  }, [])
+
+  const updateProfile = (changes: Partial<PatientProfile>) => {
+    setProfile({ ...profile, ...changes })
+    setSaved(false)
+  }
+
+  const toggleImmunosuppressant = (name: string) => {
+    const selected = profile.immunosuppressants.includes(name)
+    updateProfile({
+      immunosuppressants: selected
+        ? profile.immunosuppressants.filter((n) => n !== name)
+        : [...profile.immunosuppressants, name],
+    })
+  }
+
+  const parseTarget = (value: string): number | null => {
+    const parsed = parseInt(value, 10)
+    return isNaN(parsed) ? null : parsed
+  }
+
+  const saveProfile = async () => {
+    const updated: PatientProfile = {
+      ...profile,
+      // Drop medications that were deleted since the profile was last saved
+      immunosuppressants: profile.immunosuppressants.filter((name) => medications.some((m) => m.name === name)),
+      allergies: allergiesText.split(',').map((a) => a.trim()).filter(Boolean),
+    }
+
+    const validation = validatePatientProfile(updated)
+    if (!validation.valid) {
+      setErrors(validation.errors)
+      return
+    }
+
+    await saveStoredData(PROFILE_STORAGE_KEY, updated)
+    setProfile(updated)
+    setErrors([])
+    setSaved(true)
+  }
+
+  const phase = getTransplantPhase(profile)
+
+  return (
+    <main className="container">
+      <header className="header">
+        <Link href="/" className="back-link">
+          ← Back to Analyzer
+        </Link>
+        <h1>My Profile</h1>
+        <p>Personalize food analysis and meal ideas to your care plan</p>
+      </header>
+
+      <div className="card">
+        <div className="form-group">
+          <label>Transplant Date</label>
+          <input
+            type="date"
+            value={profile.transplantDate ?? ''}
+            onChange={(e) => updateProfile({ transplantDate: e.target.value || null })}
+          />
+          {phase && (
+            <p className="form-hint">
+              {phase === 'early' ? 'Early post-transplant (0-3 months)' : 'Late post-transplant (3+ months)'}
+            </p>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label>Organ</label>
+          <select
+            value={profile.organType}
+            onChange={(e) => updateProfile({ organType: e.target.value as OrganType })}
+          >
+            {ORGAN_TYPES.map((type) => (
+              <option key={type} value={type}>{ORGAN_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label>Current Immunosuppressants</label>
+          {medications.length === 0 ? (
+            <p className="form-hint">
+              Add your medications on the <Link href="/medications">Medication Reminders</Link> page first.
+            </p>
+          ) : (
+            medications.map((med) => (
+              <div key={med.id} className="checkbox-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={profile.immunosuppressants.includes(med.name)}
+                    onChange={() => toggleImmunosuppressant(med.name)}
+                  />
+                  {med.name}
+                </label>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="form-group">
+          <label>Daily Sodium Target (mg)</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            value={profile.sodiumTargetMg ?? ''}
+            onChange={(e) => updateProfile({ sodiumTargetMg: parseTarget(e.target.value) })}
+            placeholder="e.g., 2000"
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Daily Potassium Target (mg)</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            value={profile.potassiumTargetMg ?? ''}
+            onChange={(e) => updateProfile({ potassiumTargetMg: parseTarget(e.target.value) })}
+            placeholder="Set by your care team"
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Daily Phosphorus Target (mg)</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            value={profile.phosphorusTargetMg ?? ''}
+            onChange={(e) => updateProfile({ phosphorusTargetMg: parseTarget(e.target.value) })}
+            placeholder="Set by your care team"
+          />
+        </div>
+
+        <div className="form-group checkbox-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={profile.hasDiabetes}
+              onChange={(e) => updateProfile({ hasDiabetes: e.target.checked })}
+            />
+            I have diabetes
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label>Food Allergies</label>
+          <input
+            type="text"
+            value={allergiesText}
+            onChange={(e) => { setAllergiesText(e.target.value); setSaved(false) }}
+            placeholder="e.g., peanuts, shellfish"
+          />
+          <p className="form-hint">Separate multiple allergies with commas</p>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="error-message">
+            {errors.map((error, i) => (
+              <p key={i}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        <button className="save-btn profile-save-btn" onClick={saveProfile}>
+          {saved ? 'Profile Saved' : 'Save Profile'}
+        </button>
+      </div>
+    </main>
+  )
+}
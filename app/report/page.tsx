@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { loadStoredData } from '@/app/lib/stored-data'
+import {
+  HISTORY_RETENTION_DAYS,
+  loadDoseEvents,
+  reconcileMissedDoses,
+  saveDoseEvents,
+} from '@/app/lib/dose-history'
+import {
+  buildClinicReport,
+  describeAdherence,
+  reportToCsv,
+  reportToFhirBundle,
+  reportToPdf,
+} from '@/app/lib/clinic-report'
+import { toDateKey } from '@/app/lib/medication-schedule'
+import { ORGAN_LABELS, PROFILE_STORAGE_KEY } from '@/app/lib/patient-profile'
+import type { DoseEvent, Medication, PatientProfile } from '@/app/lib/validation'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysAgo(days: number): string {
+  return toDateKey(new Date(Date.now() - days * DAY_MS))
+}
+
+function downloadFile(contents: Blob, filename: string) {
+  const url = URL.createObjectURL(contents)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export default function ReportPage() {
+  const [medications, setMedications] = useState<Medication[]>([])
+  const [doseEvents, setDoseEvents] = useState<DoseEvent[]>([])
+  const [profile, setProfile] = useState<PatientProfile | null>(null)
+  const [from, setFrom] = useState(() => daysAgo(29))
+  const [to, setTo] = useState(() => daysAgo(0))
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      const meds = await loadStoredData<Medication[]>('medications')
+      setMedications(meds)
+      setDoseEvents(await saveDoseEvents(reconcileMissedDoses(meds, await loadDoseEvents())))
+
+      setProfile(await loadStoredData<PatientProfile | null>(PROFILE_STORAGE_KEY))
+      setLoaded(true)
+    }
+    load()
+  }, [])
+
+  const rangeError = from > to ? 'Start date must be on or before the end date' : null
+  const report = buildClinicReport(medications, doseEvents, profile, from, to)
+  const filename = `medication-report-${to}`
+
+  const formatDose = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+  return (
+    <main className="container">
+      <header className="header no-print">
+        <Link href="/medications" className="back-link">
+          ← Back to Medications
+        </Link>
+        <h1>Clinic Report</h1>
+        <p>Bring an up-to-date medication list to your next visit</p>
+      </header>
+
+      <div className="card report-controls no-print">
+        <div className="date-range-group">
+          <div className="form-group">
+            <label>From</label>
+            <input
+              type="date"
+              value={from}
+              min={daysAgo(HISTORY_RETENTION_DAYS)}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>To</label>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              max={daysAgo(0)}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="form-hint">Dose history is kept for {HISTORY_RETENTION_DAYS} days. The report is created on this device.</p>
+
+        {rangeError && <div className="error-message">{rangeError}</div>}
+
+        <div className="report-actions">
+          <button className="save-btn" onClick={() => window.print()} disabled={!loaded || !!rangeError}>
+            Print
+          </button>
+          <button className="save-btn" onClick={() => downloadFile(reportToPdf(report), `${filename}.pdf`)} disabled={!loaded || !!rangeError}>
+            PDF
+          </button>
+          <button
+            className="cancel-btn"
+            onClick={() => downloadFile(
+              new Blob([JSON.stringify(reportToFhirBundle(report), null, 2)], { type: 'application/fhir+json' }),
+              `${filename}.fhir.json`
+            )}
+            disabled={!loaded || !!rangeError}
+          >
+            FHIR
+          </button>
+          <button
+            className="cancel-btn"
+            onClick={() => downloadFile(new Blob([reportToCsv(report)], { type: 'text/csv' }), `${filename}.csv`)}
+            disabled={!loaded || !!rangeError}
+          >
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="card report">
+        <h2 className="section-title">Medication List</h2>
+        <p className="form-hint">
+          Doses from {new Date(`${from}T00:00:00`).toLocaleDateString()} to {new Date(`${to}T00:00:00`).toLocaleDateString()}
+          {profile && (
+            <> · {ORGAN_LABELS[profile.organType]} transplant{profile.transplantDate && ` on ${new Date(`${profile.transplantDate}T00:00:00`).toLocaleDateString()}`}</>
+          )}
+        </p>
+
+        {report.medications.length === 0 ? (
+          <div className="empty-state">
+            <p>No medications added yet</p>
+          </div>
+        ) : (
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Medication</th>
+                <th>Schedule</th>
+                <th>Adherence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.medications.map(({ medication, schedule, currentDosage, adherence }) => (
+                <tr key={medication.id}>
+                  <td>
+                    <strong>{medication.name}</strong>
+                    <div>{currentDosage}</div>
+                    {medication.withFood && <div className="report-note">Take with food</div>}
+                    {medication.notes && <div className="report-note">{medication.notes}</div>}
+                  </td>
+                  <td>
+                    {schedule}
+                    <div>{medication.times.join(', ')}</div>
+                  </td>
+                  <td>
+                    {describeAdherence(adherence)}
+                    {adherence && adherence.missedDoses.length > 0 && (
+                      <ul className="report-missed">
+                        {adherence.missedDoses.map((time) => (
+                          <li key={time}>Missed {formatDose(time)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <p className="form-hint">
+          Self-reported in TransplantFood. Adherence reflects doses marked as taken.
+        </p>
+      </div>
+    </main>
+  )
+}
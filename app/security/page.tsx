@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  disableStorageLock,
+  enableStorageLock,
+  isStorageLockEnabled,
+  unlockStorage,
+} from '@/app/lib/secure-storage'
+import {
+  DEFAULT_LOCK_SETTINGS,
+  IDLE_TIMEOUT_OPTIONS,
+  PIN_REGEX,
+  clearBiometricPin,
+  getLockSettings,
+  isBiometricAvailable,
+  resetFailedAttempts,
+  saveBiometricPin,
+  saveLockSettings,
+  updateLockedReminderTimes,
+  type LockSettings,
+} from '@/app/lib/app-lock'
+import { loadStoredData } from '@/app/lib/stored-data'
+import { resyncReminderSchedule } from '@/app/lib/reminder-sync'
+import type { Medication } from '@/app/lib/validation'
+
+export default function SecurityPage() {
+  const [settings, setSettings] = useState<LockSettings>(DEFAULT_LOCK_SETTINGS)
+  const [lockEnabled, setLockEnabled] = useState(false)
+  const [biometricAvailable, setBiometricAvailable] = useState(false)
+  const [currentPin, setCurrentPin] = useState('')
+  const [newPin, setNewPin] = useState('')
+  const [confirmPin, setConfirmPin] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      const saved = getLockSettings()
+      let enabled = false
+      try {
+        enabled = await isStorageLockEnabled()
+      } catch (error) {
+        console.error('App lock is not available:', error)
+      }
+      // The key store is the source of truth; the settings only mirror it
+      const synced = { ...saved, enabled, biometricEnabled: enabled && saved.biometricEnabled }
+      saveLockSettings(synced)
+      setSettings(synced)
+      setLockEnabled(enabled)
+      setBiometricAvailable(await isBiometricAvailable())
+    }
+    load()
+  }, [])
+
+  const updateSettings = (updates: Partial<LockSettings>) => {
+    const next = { ...settings, ...updates }
+    saveLockSettings(next)
+    setSettings(next)
+  }
+
+  const refreshLockedReminders = async () => {
+    updateLockedReminderTimes(await loadStoredData<Medication[]>('medications'))
+  }
+
+  // Server reminders show medication names only while the lock is off
+  const resyncServerReminders = () => {
+    resyncReminderSchedule().catch(err => console.error('Reminder schedule sync failed:', err))
+  }
+
+  const resetForm = () => {
+    setCurrentPin('')
+    setNewPin('')
+    setConfirmPin('')
+    setErrors([])
+  }
+
+  const validateNewPin = (): string[] => {
+    const errs: string[] = []
+    if (!PIN_REGEX.test(newPin)) {
+      errs.push('PIN must be 4 to 12 digits')
+    }
+    if (newPin !== confirmPin) {
+      errs.push('PINs do not match')
+    }
+    return errs
+  }
+
+  // Re-checking the PIN also keeps someone who finds the app unlocked from changing the lock
+  const checkCurrentPin = async (): Promise<boolean> => {
+    if (!currentPin || !(await unlockStorage(currentPin))) {
+      setErrors(['Current PIN is incorrect'])
+      return false
+    }
+    return true
+  }
+
+  const turnOnLock = async () => {
+    const errs = validateNewPin()
+    setErrors(errs)
+    setMessage(null)
+    if (errs.length > 0) return
+
+    setBusy(true)
+    try {
+      await enableStorageLock(newPin)
+      resetFailedAttempts()
+      updateSettings({ enabled: true })
+      setLockEnabled(true)
+      await refreshLockedReminders()
+      resyncServerReminders()
+      resetForm()
+      setMessage('App lock is on')
+    } catch (error) {
+      console.error('Failed to turn on app lock:', error)
+      setErrors(['Could not turn on the app lock. Please try again.'])
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changePin = async () => {
+    const errs = validateNewPin()
+    setErrors(errs)
+    setMessage(null)
+    if (errs.length > 0) return
+
+    setBusy(true)
+    try {
+      if (!(await checkCurrentPin())) return
+      await enableStorageLock(newPin)
+      if (settings.biometricEnabled) {
+        await saveBiometricPin(newPin)
+      }
+      resetForm()
+      setMessage('PIN changed')
+    } catch (error) {
+      console.error('Failed to change PIN:', error)
+      setErrors(['Could not change the PIN. Please try again.'])
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const turnOffLock = async () => {
+    setErrors([])
+    setMessage(null)
+
+    setBusy(true)
+    try {
+      if (!(await checkCurrentPin())) return
+      await disableStorageLock()
+      await clearBiometricPin()
+      updateSettings({ enabled: false, biometricEnabled: false })
+      setLockEnabled(false)
+      updateLockedReminderTimes([])
+      resyncServerReminders()
+      resetForm()
+      setMessage('App lock is off')
+    } catch (error) {
+      console.error('Failed to turn off app lock:', error)
+      setErrors(['Could not turn off the app lock. Please try again.'])
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleBiometric = async (enabled: boolean) => {
+    setErrors([])
+    setMessage(null)
+
+    if (!enabled) {
+      await clearBiometricPin()
+      updateSettings({ biometricEnabled: false })
+      return
+    }
+
+    setBusy(true)
+    try {
+      if (!(await checkCurrentPin())) return
+      await saveBiometricPin(currentPin)
+      updateSettings({ biometricEnabled: true })
+      setCurrentPin('')
+    } catch (error) {
+      console.error('Failed to turn on biometric unlock:', error)
+      setErrors(['Could not turn on biometric unlock'])
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pinInput = (label: string, value: string, onChange: (value: string) => void) => (
+    <div className="form-group">
+      <label>{label}</label>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={12}
+        value={value}
+        onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      />
+    </div>
+  )
+
+  return (
+    <main className="container">
+      <header className="header">
+        <Link href="/" className="back-link">
+          ← Back to Analyzer
+        </Link>
+        <h1>App Lock</h1>
+        <p>Protect your health data with a PIN</p>
+      </header>
+
+      <div className="card">
+        <div className="form-group">
+          <label>Lock After</label>
+          <select
+            value={settings.idleMinutes}
+            onChange={(e) => updateSettings({ idleMinutes: Number(e.target.value) })}
+          >
+            {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minute{minutes === 1 ? '' : 's'} without use
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {lockEnabled ? (
+          <>
+            {pinInput('Current PIN', currentPin, setCurrentPin)}
+
+            {biometricAvailable && (
+              <div className="form-group checkbox-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={settings.biometricEnabled}
+                    onChange={(e) => toggleBiometric(e.target.checked)}
+                    disabled={busy}
+                  />
+                  Unlock with Face ID / fingerprint
+                </label>
+                <p className="form-hint">Enter your current PIN above to turn this on</p>
+              </div>
+            )}
+
+            {pinInput('New PIN', newPin, setNewPin)}
+            {pinInput('Confirm New PIN', confirmPin, setConfirmPin)}
+
+            <div className="modal-actions">
+              <button className="cancel-btn" onClick={turnOffLock} disabled={busy}>
+                Turn Off Lock
+              </button>
+              <button className="save-btn" onClick={changePin} disabled={busy}>
+                Change PIN
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {pinInput('Choose a PIN (4-12 digits)', newPin, setNewPin)}
+            {pinInput('Confirm PIN', confirmPin, setConfirmPin)}
+            <p className="form-hint">
+              Your data is encrypted with a key protected by this PIN. If you forget it,
+              your saved data cannot be recovered.
+            </p>
+            <button className="save-btn profile-save-btn" onClick={turnOnLock} disabled={busy}>
+              {busy ? 'Encrypting...' : 'Turn On App Lock'}
+            </button>
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <div className="error-message">
+            {errors.map((error, i) => (
+              <p key={i}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        {message && <p className="form-hint app-lock-message">{message}</p>}
+
+        <p className="form-hint">
+          While the app is locked, medication reminders only say that a dose is due,
+          without naming the medication.
+        </p>
+      </div>
+    </main>
+  )
+}
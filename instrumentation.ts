@@ -0,0 +1,14 @@
+/**
+ * Runs once when the server starts. In production, refuses settings that would quietly
+ * weaken rate limiting or invalidate every issued token on the next restart.
+ */
+export async function register() {
+  if (process.env.NODE_ENV !== 'production' || process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { assertProxyConfig } = await import('@/app/lib/client-ip')
+  const { assertTokenSecret } = await import('@/app/lib/device-token')
+  assertProxyConfig()
+  assertTokenSecret()
+}
@@ -79,39 +79,38 @@ self.addEventListener('notificationclick', (event) => {
   console.log('Notification clicked:', event);
   event.notification.close();
 
+  const data = event.notification.data || {};
+
   if (event.action === 'take') {
     // User marked medication as taken
     event.waitUntil(
-      clients.matchAll({ type: 'window' }).then((clientList) => {
-        // Send message to any open windows
-        clientList.forEach((client) => {
-          client.postMessage({
-            type: 'MEDICATION_TAKEN',
-            data: event.notification.data
-          });
-        });
-      })
+      recordDoseAction(data, 'taken').then(() => notifyClients('MEDICATION_TAKEN', data))
     );
   } else if (event.action === 'snooze') {
     // Snooze for 10 minutes
     event.waitUntil(
-      new Promise((resolve) => {
-        setTimeout(() => {
-          self.registration.showNotification(
-            event.notification.title,
-            {
-              body: event.notification.body + ' (Snoozed)',
-              icon: '/icon-192.png',
-              badge: '/icon-192.png',
-              tag: 'medication-reminder-snoozed',
-              requireInteraction: true,
-              vibrate: [200, 100, 200, 100, 200],
-              data: event.notification.data
-            }
-          );
-          resolve();
-        }, 10 * 60 * 1000); // 10 minutes
-      })
+      recordDoseAction(data, 'snoozed').then(() => notifyClients('MEDICATION_SNOOZED', data)).then(() =>
+        new Promise((resolve) => {
+          setTimeout(() => {
+            self.registration.showNotification(
+              event.notification.title,
+              {
+                body: event.notification.body + ' (Snoozed)',
+                icon: '/icon-192.png',
+                badge: '/icon-192.png',
+                tag: 'medication-reminder-snoozed',
+                requireInteraction: true,
+                vibrate: [200, 100, 200, 100, 200],
+                data: event.notification.data,
+                actions: [
+                  { action: 'take', title: 'Mark as Taken' }
+                ]
+              }
+            );
+            resolve();
+          }, 10 * 60 * 1000); // 10 minutes
+        })
+      )
     );
   } else {
     // Open the app
@@ -130,24 +129,143 @@ self.addEventListener('notificationclick', (event) => {
   }
 });
 
-// Handle push subscription change
+// IndexedDB shared with the app (see app/lib/sw-database.ts).
+// Dose actions are queued so they are recorded even when no app window is open;
+// the medications page drains this queue on load and whenever it is notified.
+const SW_DB_NAME = 'transplantfood-sw';
+const SW_DB_VERSION = 2;
+const SW_DOSE_STORE = 'pendingDoseEvents';
+const SW_STATE_STORE = 'state';
+
+function openSwDatabase() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(SW_DB_NAME, SW_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SW_DOSE_STORE)) {
+        db.createObjectStore(SW_DOSE_STORE, { autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(SW_STATE_STORE)) {
+        db.createObjectStore(SW_STATE_STORE);
+      }
+    };
+    request.onerror = () => resolve(null);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function runSwTransaction(storeName, mode, callback) {
+  return openSwDatabase().then((db) => {
+    if (!db) {
+      return undefined;
+    }
+    return new Promise((resolve) => {
+      const tx = db.transaction(storeName, mode);
+      const request = callback(tx.objectStore(storeName));
+      tx.oncomplete = () => {
+        db.close();
+        resolve(request ? request.result : undefined);
+      };
+      tx.onerror = () => {
+        db.close();
+        resolve(undefined);
+      };
+    });
+  });
+}
+
+function getSwState(key) {
+  return runSwTransaction(SW_STATE_STORE, 'readonly', (store) => store.get(key));
+}
+
+function setSwState(key, value) {
+  return runSwTransaction(SW_STATE_STORE, 'readwrite', (store) => store.put(value, key));
+}
+
+function recordDoseAction(data, status) {
+  if (!data.medicationId || !data.scheduledTime) {
+    return Promise.resolve();
+  }
+
+  return runSwTransaction(SW_DOSE_STORE, 'readwrite', (store) => {
+    store.add({
+      medicationId: data.medicationId,
+      scheduledTime: data.scheduledTime,
+      actualTime: new Date().toISOString(),
+      status
+    });
+  });
+}
+
+function notifyClients(type, data) {
+  return clients.matchAll({ type: 'window' }).then((clientList) => {
+    clientList.forEach((client) => {
+      client.postMessage({ type, data });
+    });
+  });
+}
+
+// Handle push subscription change (the browser rotated the endpoint or keys)
 self.addEventListener('pushsubscriptionchange', (event) => {
   console.log('Push subscription changed');
-  event.waitUntil(
-    self.registration.pushManager.subscribe({
-      userVisibleOnly: true,
-      applicationServerKey: self.VAPID_PUBLIC_KEY
-    }).then((subscription) => {
-      // Send new subscription to server
-      return fetch('/api/push/subscribe', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(subscription)
-      });
-    })
-  );
+  event.waitUntil(replacePushSubscription(event));
 });
 
+async function replacePushSubscription(event) {
+  try {
+    const oldEndpoint = (event.oldSubscription && event.oldSubscription.endpoint) || await getSwState('pushEndpoint');
+
+    let subscription = event.newSubscription;
+    if (!subscription) {
+      const configResponse = await fetch('/api/push/subscribe');
+      const config = await configResponse.json();
+      if (!config.configured || !config.vapidPublicKey) {
+        return;
+      }
+      subscription = await self.registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(config.vapidPublicKey)
+      });
+    }
+
+    // Swap the old record for the new one on the server, keeping the synced reminder schedule.
+    // Moving a subscription needs the device token issued for the old one.
+    const deviceToken = await getSwState('deviceToken');
+    const canReplace = Boolean(oldEndpoint && deviceToken);
+    const response = await fetch('/api/push/subscribe', {
+      method: canReplace ? 'PUT' : 'POST',
+      headers: canReplace
+        ? { 'Content-Type': 'application/json', Authorization: `Bearer ${deviceToken}` }
+        : { 'Content-Type': 'application/json' },
+      body: JSON.stringify(canReplace ? { oldEndpoint, subscription } : { subscription })
+    });
+    if (!response.ok) {
+      throw new Error(`Server rejected new subscription (${response.status})`);
+    }
+
+    const result = await response.json();
+    await setSwState('deviceToken', result.deviceToken);
+    await setSwState('pushEndpoint', subscription.endpoint);
+    await notifyClients('PUSH_SUBSCRIPTION_CHANGED', {
+      endpoint: subscription.endpoint,
+      deviceToken: result.deviceToken
+    });
+  } catch (error) {
+    console.error('Error replacing push subscription:', error);
+  }
+}
+
+function urlBase64ToUint8Array(base64String) {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  const outputArray = new Uint8Array(rawData.length);
+  for (let i = 0; i < rawData.length; i++) {
+    outputArray[i] = rawData.charCodeAt(i);
+  }
+  return outputArray;
+}
+
 // Network-first strategy for API calls, cache-first for static assets
 self.addEventListener('fetch', (event) => {
   const { request } = event;
@@ -200,9 +318,21 @@ self.addEventListener('periodicsync', (event) => {
 });
 
 async function checkMedicationTimes() {
-  // Get medications from IndexedDB or send request to check
+  // Ask the server for doses due on this device's synced schedule
   try {
-    const response = await fetch('/api/push/check-reminders');
+    const subscription = await self.registration.pushManager.getSubscription();
+    if (!subscription) {
+      return;
+    }
+
+    const deviceToken = await getSwState('deviceToken');
+    if (!deviceToken) {
+      return;
+    }
+
+    const response = await fetch(`/api/push/check-reminders?endpoint=${encodeURIComponent(subscription.endpoint)}`, {
+      headers: { Authorization: `Bearer ${deviceToken}` }
+    });
     const data = await response.json();
 
     if (data.reminders && data.reminders.length > 0) {
@@ -214,7 +344,11 @@ async function checkMedicationTimes() {
           tag: `medication-${reminder.id}`,
           requireInteraction: true,
           vibrate: [200, 100, 200, 100, 200],
-          data: reminder.data
+          data: reminder.data,
+          actions: [
+            { action: 'take', title: 'Mark as Taken' },
+            { action: 'snooze', title: 'Snooze 10min' }
+          ]
         });
       }
     }
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/analyze/route'
+import { createFakeLlmClient, setLlmClient } from '@/app/lib/llm'
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/app/lib/rate-limit'
+import { createMemoryUsageStore, recordUsage, setUsageStore } from '@/app/lib/usage-ledger'
+import type { AnalysisStreamEvent } from '@/app/lib/analysis'
+import { TINY_PNG, apiError, jsonRequest, loadFixture, readNdjson } from '../helpers'
+
+function analyze(body: unknown = { images: [TINY_PNG] }) {
+  return POST(jsonRequest('/api/analyze', body))
+}
+
+function finalEvent(events: AnalysisStreamEvent[]): AnalysisStreamEvent {
+  return events[events.length - 1]
+}
+
+describe('POST /api/analyze', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    setUsageStore(createMemoryUsageStore())
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    setLlmClient(null)
+    vi.restoreAllMocks()
+  })
+
+  it('streams the verdict, the analysis and the final result', async () => {
+    const fake = createFakeLlmClient(loadFixture('analyze/good.json'))
+    setLlmClient(fake)
+
+    const response = await analyze()
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('application/x-ndjson')
+    expect(response.headers.get('RateLimit-Limit')).toBe('20')
+
+    const events = await readNdjson<AnalysisStreamEvent>(response)
+    expect(events[0]).toEqual({
+      type: 'verdict',
+      productName: 'Whole Grain Crackers',
+      verdict: 'caution',
+      summary: 'Moderate sodium per serving; fine in small portions.',
+    })
+
+    const streamedAnalysis = events.flatMap((event) => (event.type === 'analysis' ? [event.text] : [])).join('')
+    const last = finalEvent(events)
+    expect(last.type).toBe('result')
+    if (last.type !== 'result') return
+    expect(last.result.verdict).toBe('caution')
+    expect(last.result.nutrients.sodium).toEqual({ amount: 230, unit: 'mg', percentDailyValue: 10 })
+    expect(last.result.interactionMatches).toEqual([])
+    expect(streamedAnalysis).toBe(last.result.analysis)
+
+    expect(fake.requests).toHaveLength(1)
+    expect(fake.requests[0].task).toBe('analyze')
+    expect(fake.requests[0].content).toContainEqual(
+      expect.objectContaining({ type: 'image', source: expect.objectContaining({ media_type: 'image/png' }) })
+    )
+  })
+
+  it('reads a result wrapped in a markdown code fence', async () => {
+    setLlmClient(createFakeLlmClient(loadFixture('analyze/fenced.txt')))
+
+    const last = finalEvent(await readNdjson<AnalysisStreamEvent>(await analyze()))
+    expect(last.type).toBe('result')
+    if (last.type !== 'result') return
+    expect(last.result.productName).toBe('Whole Grain Crackers')
+  })
+
+  it('reports an error when the verdict is missing', async () => {
+    setLlmClient(createFakeLlmClient(loadFixture('analyze/missing-verdict.json')))
+
+    const events = await readNdjson<AnalysisStreamEvent>(await analyze())
+    expect(events.some((event) => event.type === 'verdict')).toBe(false)
+    expect(finalEvent(events)).toEqual({ type: 'error', error: 'Could not read the analysis. Please try again.' })
+  })
+
+  it('reports an error when the output is cut off', async () => {
+    setLlmClient(createFakeLlmClient(loadFixture('analyze/truncated.txt')))
+
+    const events = await readNdjson<AnalysisStreamEvent>(await analyze())
+    expect(events[0].type).toBe('verdict')
+    expect(finalEvent(events)).toEqual({ type: 'error', error: 'Could not read the analysis. Please try again.' })
+  })
+
+  it('forces "avoid" when an ingredient interacts with immunosuppressants', async () => {
+    setLlmClient(createFakeLlmClient(loadFixture('analyze/grapefruit.json')))
+
+    const events = await readNdjson<AnalysisStreamEvent>(await analyze())
+    // The model's "safe" is never shown, not even as the preliminary verdict
+    expect(events.some((event) => event.type === 'verdict' && event.verdict === 'safe')).toBe(false)
+    expect(events[0]).toMatchObject({ type: 'verdict', verdict: 'avoid' })
+
+    const last = finalEvent(events)
+    expect(last.type).toBe('result')
+    if (last.type !== 'result') return
+    expect(last.result.verdict).toBe('avoid')
+    expect(last.result.interactionMatches.map((match) => match.ruleId)).toContain('grapefruit')
+  })
+
+  it.each([
+    [401, 500, 'Service configuration error'],
+    [429, 503, 'Service temporarily busy. Please try again.'],
+    [500, 503, 'Analysis service unavailable'],
+  ])('maps an API %i to a %i response', async (upstreamStatus, status, error) => {
+    setLlmClient(createFakeLlmClient(() => {
+      throw apiError(upstreamStatus)
+    }))
+
+    const response = await analyze()
+    expect(response.status).toBe(status)
+    expect(await response.json()).toEqual({ error })
+  })
+
+  it('rejects a request without images before calling the model', async () => {
+    const fake = createFakeLlmClient(loadFixture('analyze/good.json'))
+    setLlmClient(fake)
+
+    const response = await analyze({ images: [] })
+    expect(response.status).toBe(400)
+    expect(fake.requests).toHaveLength(0)
+  })
+
+  it('returns quota_exceeded once the daily quota is used up', async () => {
+    const fake = createFakeLlmClient(loadFixture('analyze/good.json'))
+    setLlmClient(fake)
+    recordUsage({ client: 'ip:local-client', network: 'ip:local-client' }, 'analyze', { inputTokens: 150000, outputTokens: 0 })
+
+    const response = await analyze()
+    expect(response.status).toBe(429)
+    expect(await response.json()).toMatchObject({ code: 'quota_exceeded', route: 'analyze' })
+    expect(fake.requests).toHaveLength(0)
+  })
+})
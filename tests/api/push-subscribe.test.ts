@@ -0,0 +1,77 @@
+import webPush from 'web-push'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/app/lib/rate-limit'
+import { createMemorySubscriptionStore } from '@/app/lib/subscription-store'
+import { jsonRequest } from '../helpers'
+
+type SubscribeRoute = typeof import('@/app/api/push/subscribe/route')
+type PushNotifications = typeof import('@/app/lib/push-notifications')
+
+function subscription(endpoint: string) {
+  return { endpoint, keys: { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' } }
+}
+
+function putRequest(body: unknown, deviceToken: string): NextRequest {
+  return new NextRequest(new URL('/api/push/subscribe', 'http://localhost'), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${deviceToken}` },
+    body: JSON.stringify(body),
+  })
+}
+
+describe('/api/push/subscribe', () => {
+  let route: SubscribeRoute
+  let push: PushNotifications
+
+  beforeAll(async () => {
+    // The VAPID keys are read when the module loads
+    const keys = webPush.generateVAPIDKeys()
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', keys.publicKey)
+    vi.stubEnv('VAPID_PRIVATE_KEY', keys.privateKey)
+    vi.resetModules()
+    push = await import('@/app/lib/push-notifications')
+    route = await import('@/app/api/push/subscribe/route')
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    push.setSubscriptionStore(createMemorySubscriptionStore())
+  })
+
+  async function subscribe(endpoint: string): Promise<string> {
+    const response = await route.POST(jsonRequest('/api/push/subscribe', { subscription: subscription(endpoint) }))
+    expect(response.status).toBe(200)
+    return (await response.json()).deviceToken
+  }
+
+  it('refuses to move a subscription onto one that is already registered', async () => {
+    const victim = 'https://push.example.com/victim'
+    await subscribe(victim)
+    const attackerToken = await subscribe('https://push.example.com/attacker')
+
+    const response = await route.PUT(putRequest(
+      { oldEndpoint: 'https://push.example.com/attacker', subscription: subscription(victim) },
+      attackerToken
+    ))
+    expect(response.status).toBe(409)
+    expect(await response.json()).toEqual({ error: 'Subscription is already registered' })
+    expect(push.getSubscriptionRecord(push.generateSecureIdFromEndpoint('https://push.example.com/attacker'))).toBeDefined()
+  })
+
+  it('moves a subscription to a new endpoint', async () => {
+    const token = await subscribe('https://push.example.com/old')
+
+    const response = await route.PUT(putRequest(
+      { oldEndpoint: 'https://push.example.com/old', subscription: subscription('https://push.example.com/new') },
+      token
+    ))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ replaced: true, deviceToken: expect.any(String) })
+    expect(push.getSubscriptionRecord(push.generateSecureIdFromEndpoint('https://push.example.com/old'))).toBeUndefined()
+  })
+})
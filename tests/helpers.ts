@@ -0,0 +1,46 @@
+/**
+ * Shared helpers for the offline test suite: recorded model output, requests to the
+ * route handlers, and Anthropic API errors to make the fake model fail with
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { APIError } from '@anthropic-ai/sdk'
+import { NextRequest } from 'next/server'
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+
+// A 1x1 PNG; the routes only check the data URL format
+export const TINY_PNG =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+/**
+ * Raw model output recorded in tests/fixtures, e.g. loadFixture('analyze/good.json')
+ */
+export function loadFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8')
+}
+
+export function jsonRequest(url: string, body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Every event of a newline-delimited JSON response
+ */
+export async function readNdjson<T>(response: Response): Promise<T[]> {
+  const text = await response.text()
+  return text.split('\n').filter(Boolean).map((line) => JSON.parse(line) as T)
+}
+
+/**
+ * The error the SDK throws for an HTTP error response from the API
+ */
+export function apiError(status: number): APIError {
+  const type = status === 401 ? 'authentication_error' : status === 429 ? 'rate_limit_error' : 'api_error'
+  return APIError.generate(status, { type: 'error', error: { type, message: 'Recorded failure' } }, undefined, new Headers())
+}
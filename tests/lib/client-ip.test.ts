@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { getClientIp, type ProxyConfig } from '@/app/lib/client-ip'
+
+describe('getClientIp', () => {
+  const config: ProxyConfig = { hops: 1, trusted: [], realIp: false }
+
+  function requestWith(headers: Record<string, string>) {
+    return new Request('http://localhost/api/analyze', { method: 'POST', headers })
+  }
+
+  it('takes the entry our proxy appended to X-Forwarded-For', () => {
+    expect(getClientIp(requestWith({ 'X-Forwarded-For': '198.51.100.7, 203.0.113.5' }), config)).toBe('203.0.113.5')
+  })
+
+  it('ignores X-Real-IP unless our proxy is known to set it', () => {
+    const request = requestWith({ 'X-Real-IP': '203.0.113.9' })
+    expect(getClientIp(request, config)).toBeNull()
+    expect(getClientIp(request, { ...config, realIp: true })).toBe('203.0.113.9')
+  })
+})
@@ -0,0 +1,46 @@
+import webPush, { WebPushError } from 'web-push'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+type PushNotifications = typeof import('@/app/lib/push-notifications')
+
+describe('sendPushNotification', () => {
+  let push: PushNotifications
+  const subscription = { endpoint: 'https://push.example.com/a', keys: { p256dh: 'key', auth: 'auth' } }
+
+  beforeAll(async () => {
+    // The VAPID keys are read when the module loads
+    const keys = webPush.generateVAPIDKeys()
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', keys.publicKey)
+    vi.stubEnv('VAPID_PRIVATE_KEY', keys.privateKey)
+    vi.resetModules()
+    push = await import('@/app/lib/push-notifications')
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it.each([
+    [400, 'rejected', 1],
+    [403, 'rejected', 1],
+    [413, 'payload-too-large', 1],
+    [429, 'rate-limited', 3],
+    [503, 'transient', 3],
+  ])('treats a %i from the push service as %s after %i attempts', async (statusCode, status, attempts) => {
+    const send = vi.spyOn(webPush, 'sendNotification').mockRejectedValue(
+      new WebPushError('Push failed', statusCode, {}, '', subscription.endpoint)
+    )
+
+    const result = await push.sendPushNotification(subscription, { title: 'Reminder', body: 'Take your dose' }, {
+      sleep: async () => {},
+    })
+    expect(result).toMatchObject({ status, statusCode })
+    expect(send).toHaveBeenCalledTimes(attempts)
+    send.mockRestore()
+  })
+})
@@ -0,0 +1,210 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { issueInstallToken } from '@/app/lib/device-token'
+import {
+  checkClientRateLimit,
+  createFileRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+  setRateLimitStore,
+  withRateLimitHeaders,
+} from '@/app/lib/rate-limit'
+
+// Start of a one-minute window
+const START = 1_800_000_000_000
+
+function fakeClock(start: number = START) {
+  const clock = () => clock.now
+  clock.now = start
+  return clock
+}
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit, then reports when the next request fits', () => {
+    const clock = fakeClock()
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), clock)
+
+    for (let i = 0; i < 20; i++) {
+      const result = limiter.check('analyze', 'client-a')
+      expect(result.success).toBe(true)
+      expect(result.remaining).toBe(19 - i)
+    }
+
+    const denied = limiter.check('analyze', 'client-a')
+    expect(denied).toMatchObject({ success: false, policy: 'analyze', limit: 20, remaining: 0 })
+    // Once 1/20 of the full window has slid past the end of this one
+    expect(denied.resetTime).toBe(START + 63_000)
+
+    // Other clients and policies are counted separately
+    expect(limiter.check('analyze', 'client-b').success).toBe(true)
+    expect(limiter.check('meals', 'client-a').success).toBe(true)
+  })
+
+  it('weights the previous window by how much of it still overlaps', () => {
+    const clock = fakeClock()
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), clock)
+    for (let i = 0; i < 20; i++) {
+      limiter.check('analyze', 'client-a')
+    }
+
+    clock.now = START + 60_000
+    expect(limiter.check('analyze', 'client-a').success).toBe(false)
+
+    // Half of the previous window's 20 requests still count
+    clock.now = START + 90_000
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.check('analyze', 'client-a').success).toBe(true)
+    }
+    expect(limiter.check('analyze', 'client-a').success).toBe(false)
+
+    clock.now = START + 180_000
+    expect(limiter.check('analyze', 'client-a').remaining).toBe(19)
+  })
+
+  it('prunes expired entries from the store', () => {
+    const clock = fakeClock()
+    const store = createMemoryRateLimitStore()
+    const limiter = createRateLimiter(store, clock)
+    limiter.check('analyze', 'client-a')
+    expect(store.get('analyze:client-a')).toBeDefined()
+
+    clock.now = START + 5 * 60 * 1000
+    limiter.check('analyze', 'client-b')
+    expect(store.get('analyze:client-a')).toBeUndefined()
+  })
+})
+
+describe('createFileRateLimitStore', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('shares counts between instances using the same file', () => {
+    const filePath = path.join(dir, 'rate-limits.json')
+    const clock = fakeClock()
+    const first = createRateLimiter(createFileRateLimitStore(filePath), clock)
+    const second = createRateLimiter(createFileRateLimitStore(filePath), clock)
+
+    for (let i = 0; i < 10; i++) {
+      first.check('analyze', 'client-a')
+      second.check('analyze', 'client-a')
+    }
+    expect(first.check('analyze', 'client-a').success).toBe(false)
+
+    // Denied requests are not written back
+    const { ino, mtimeMs } = fs.statSync(filePath)
+    second.check('analyze', 'client-a')
+    expect(fs.statSync(filePath)).toMatchObject({ ino, mtimeMs })
+
+    // A store opened after a restart picks up the saved counts
+    const restarted = createRateLimiter(createFileRateLimitStore(filePath), clock)
+    expect(restarted.check('analyze', 'client-a').success).toBe(false)
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600)
+  })
+})
+
+describe('rate limit responses', () => {
+  const denied = { success: false, policy: 'analyze' as const, limit: 20, remaining: 0, resetTime: START + 63_000 }
+
+  it('describes a result in RateLimit-* headers', () => {
+    expect(rateLimitHeaders(denied, START + 60_500)).toEqual({
+      'RateLimit-Policy': '20;w=60',
+      'RateLimit-Limit': '20',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '3',
+    })
+  })
+
+  it('returns a 429 with Retry-After', async () => {
+    const response = rateLimitExceededResponse({ ...denied, resetTime: Date.now() + 30_000 })
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('30')
+    expect(await response.json()).toEqual({ error: 'Too many requests. Please try again later.' })
+  })
+
+  it('keeps headers set by a more specific limit', () => {
+    const response = withRateLimitHeaders(rateLimitExceededResponse({ ...denied, policy: 'push-send-device', limit: 5 }), {
+      ...denied,
+      policy: 'push-send',
+      limit: 30,
+    })
+    expect(response.headers.get('RateLimit-Policy')).toBe('5;w=600')
+  })
+})
+
+describe('checkClientRateLimit', () => {
+  function requestFrom(ip: string, installToken?: string) {
+    const headers: Record<string, string> = { 'X-Forwarded-For': ip }
+    if (installToken) {
+      headers['X-Install-Token'] = installToken
+    }
+    return new Request('http://localhost/api/analyze', { method: 'POST', headers })
+  }
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore(), fakeClock())
+  })
+
+  it('limits clients without an install token by IP', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5'))?.success).toBe(true)
+    }
+    expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5'))?.success).toBe(false)
+    // A forged install token does not get a fresh bucket
+    expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5', 'i1.install_fake.1.sig'))?.success).toBe(false)
+    expect(checkClientRateLimit('analyze', requestFrom('203.0.113.6'))?.success).toBe(true)
+  })
+
+  it('refuses requests without a trusted address in production instead of sharing one bucket', () => {
+    const request = new Request('http://localhost/api/analyze', { method: 'POST' })
+    expect(getClientIdentifier(request)).toBe('local-client')
+
+    vi.stubEnv('NODE_ENV', 'production')
+    try {
+      expect(getClientIdentifier(request)).toBeNull()
+      expect(checkClientRateLimit('analyze', request)).toBeNull()
+      expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5'))?.success).toBe(true)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('gives each install its own limit', () => {
+    const first = issueInstallToken().token
+    const second = issueInstallToken().token
+
+    for (let i = 0; i < 20; i++) {
+      expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5', first))?.success).toBe(true)
+    }
+    expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5', first))).toMatchObject({
+      success: false,
+      policy: 'analyze',
+    })
+    expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5', second))?.success).toBe(true)
+  })
+
+  it('limits all installs behind one IP together', () => {
+    const installs = [issueInstallToken(), issueInstallToken(), issueInstallToken(), issueInstallToken()]
+
+    for (const { token } of installs.slice(0, 3)) {
+      for (let i = 0; i < 20; i++) {
+        expect(checkClientRateLimit('analyze', requestFrom('203.0.113.5', token))?.success).toBe(true)
+      }
+    }
+
+    // Three installs have used up the 60 requests allowed per IP
+    const result = checkClientRateLimit('analyze', requestFrom('203.0.113.5', installs[3].token))
+    expect(result).toMatchObject({ success: false, policy: 'analyze-ip' })
+  })
+})
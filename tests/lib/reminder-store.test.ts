@@ -0,0 +1,77 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createReminderScheduler } from '@/app/lib/reminder-scheduler'
+import {
+  createFileReminderStore,
+  getReminderSchedule,
+  getReminderScheduleIds,
+  moveReminderSchedule,
+  saveReminderSchedule,
+  setReminderStore,
+} from '@/app/lib/reminder-store'
+
+const sync = {
+  medications: [{ id: 'med-1', name: 'Tacrolimus', dosage: '2 mg', times: ['08:00'], notes: '', withFood: false }],
+  timeZone: 'UTC',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+}
+
+describe('reminder store', () => {
+  let filePath: string
+
+  beforeEach(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'reminder-store-test-')), 'reminder-schedules.json')
+    setReminderStore(createFileReminderStore(filePath))
+  })
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true })
+  })
+
+  it('keeps schedules encrypted on disk across restarts', () => {
+    saveReminderSchedule('user_a', sync)
+    expect(fs.readFileSync(filePath, 'utf8')).not.toContain('Tacrolimus')
+
+    setReminderStore(createFileReminderStore(filePath))
+    expect(getReminderScheduleIds()).toEqual(['user_a'])
+    expect(getReminderSchedule('user_a')).toEqual(sync)
+  })
+
+  it('does not repeat a dose after a restart or from another instance', () => {
+    saveReminderSchedule('user_a', sync)
+    const now = () => new Date('2026-03-02T08:10:00Z')
+
+    const first = createReminderScheduler({ now })
+    expect(first.collectDueReminders('user_a').map((reminder) => reminder.title)).toEqual(['Time to take Tacrolimus'])
+
+    setReminderStore(createFileReminderStore(filePath))
+    expect(createReminderScheduler({ now }).collectDueReminders('user_a')).toEqual([])
+  })
+
+  it('keeps delivered doses when another instance saves the schedule', () => {
+    saveReminderSchedule('user_a', sync)
+    const now = () => new Date('2026-03-02T08:10:00Z')
+    const scheduler = createReminderScheduler({ now })
+
+    // This instance read the schedule before the other one marked the dose
+    setReminderStore(createFileReminderStore(filePath))
+    getReminderSchedule('user_a')
+    expect(scheduler.collectDueReminders('user_a')).toHaveLength(1)
+    saveReminderSchedule('user_a', { ...sync, updatedAt: '2026-03-02T08:11:00.000Z' })
+
+    expect(scheduler.collectDueReminders('user_a')).toEqual([])
+  })
+
+  it('moves a schedule and its delivered doses to a new subscription id', () => {
+    saveReminderSchedule('user_a', sync)
+    const now = () => new Date('2026-03-02T08:10:00Z')
+    createReminderScheduler({ now }).collectDueReminders('user_a')
+
+    moveReminderSchedule('user_a', 'user_b')
+    expect(getReminderScheduleIds()).toEqual(['user_b'])
+    expect(getReminderSchedule('user_b')).toEqual(sync)
+    expect(createReminderScheduler({ now }).collectDueReminders('user_b')).toEqual([])
+  })
+})
@@ -0,0 +1,163 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type SecureStorage = typeof import('@/app/lib/secure-storage')
+
+/**
+ * In-memory localStorage. Items are own enumerable properties, as in browsers, because
+ * secure storage walks them with Object.keys(localStorage).
+ */
+function createLocalStorage(): Storage {
+  const storage = {} as Storage
+  const items = () => Object.keys(storage)
+  Object.defineProperties(storage, {
+    length: { get: () => items().length },
+    key: { value: (index: number) => items()[index] ?? null },
+    getItem: { value: (key: string) => (Object.hasOwn(storage, key) ? (storage as unknown as Record<string, string>)[key] : null) },
+    setItem: {
+      value: (key: string, value: string) => {
+        (storage as unknown as Record<string, string>)[key] = String(value)
+      },
+    },
+    removeItem: {
+      value: (key: string) => {
+        delete (storage as unknown as Record<string, string>)[key]
+      },
+    },
+    clear: { value: () => items().forEach((key) => storage.removeItem(key)) },
+  })
+  return storage
+}
+
+// How the retired XOR scheme stored a value
+function encodeLegacyXor(value: unknown): string {
+  const xorKey = 'transplant-food-secure-v1'
+  const encoded = btoa(unescape(encodeURIComponent(JSON.stringify(value))))
+  let result = ''
+  for (let i = 0; i < encoded.length; i++) {
+    result += String.fromCharCode(encoded.charCodeAt(i) ^ xorKey.charCodeAt(i % xorKey.length))
+  }
+  return btoa(result)
+}
+
+// A fresh copy of the module, as after an app restart; the key database and localStorage are kept
+async function loadSecureStorage(): Promise<SecureStorage> {
+  vi.resetModules()
+  return import('@/app/lib/secure-storage')
+}
+
+describe('secure storage', () => {
+  let storage: SecureStorage
+
+  beforeEach(async () => {
+    Object.assign(globalThis, { window: globalThis, localStorage: createLocalStorage(), indexedDB: new IDBFactory() })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    storage = await loadSecureStorage()
+  })
+
+  it('round-trips values as AES-GCM ciphertext', async () => {
+    const medications = [{ id: 'med-1', name: 'Tacrolimus', dosage: '2 mg' }]
+    await storage.secureSet('medications', medications)
+
+    const stored = localStorage.getItem('medications')
+    expect(stored).toMatch(/^v2:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+$/)
+    expect(stored).not.toContain('Tacrolimus')
+    expect(await storage.secureGet('medications', [])).toEqual(medications)
+
+    // The key survives a restart
+    const restarted = await loadSecureStorage()
+    expect(await restarted.secureGet('medications', [])).toEqual(medications)
+  })
+
+  it('returns the default for missing or unreadable values', async () => {
+    expect(await storage.secureGet('profile', null)).toBeNull()
+
+    await storage.secureSet('profile', { organType: 'kidney' })
+    localStorage.setItem('backup', localStorage.getItem('profile')!)
+    // The storage key is bound to the ciphertext, so a copied value does not decrypt
+    expect(await storage.secureGet('backup', 'default')).toBe('default')
+  })
+
+  it('migrates values from the XOR scheme and plain JSON', async () => {
+    localStorage.setItem('medications', encodeLegacyXor([{ name: 'Prednisone' }]))
+    localStorage.setItem('analysisHistory', JSON.stringify([{ productName: 'Crackers' }]))
+    localStorage.setItem('other-library', 'not ours')
+    const migrated = await loadSecureStorage()
+
+    expect(await migrated.secureGet('medications', [])).toEqual([{ name: 'Prednisone' }])
+    expect(await migrated.secureGet('analysisHistory', [])).toEqual([{ productName: 'Crackers' }])
+    expect(localStorage.getItem('medications')).toMatch(/^v2:/)
+    expect(localStorage.getItem('analysisHistory')).toMatch(/^v2:/)
+    expect(localStorage.getItem('other-library')).toBe('not ours')
+  })
+
+  it('waits for the PIN once the app lock is on', async () => {
+    await storage.secureSet('profile', { organType: 'liver' })
+    await storage.enableStorageLock('2468')
+    expect(await storage.isStorageLockEnabled()).toBe(true)
+    expect(await storage.secureGet('profile', null)).toEqual({ organType: 'liver' })
+
+    const restarted = await loadSecureStorage()
+    expect(restarted.isStorageUnlocked()).toBe(false)
+    const pending = restarted.secureGet('profile', null)
+
+    expect(await restarted.unlockStorage('1357')).toBe(false)
+    expect(await restarted.unlockStorage('2468')).toBe(true)
+    expect(await pending).toEqual({ organType: 'liver' })
+
+    await restarted.disableStorageLock()
+    expect(await restarted.isStorageLockEnabled()).toBe(false)
+    expect(await (await loadSecureStorage()).secureGet('profile', null)).toEqual({ organType: 'liver' })
+  })
+})
+
+describe('stored data', () => {
+  let storage: SecureStorage
+  let storedData: typeof import('@/app/lib/stored-data')
+
+  beforeEach(async () => {
+    Object.assign(globalThis, { window: globalThis, localStorage: createLocalStorage(), indexedDB: new IDBFactory() })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    storage = await loadSecureStorage()
+    storedData = await import('@/app/lib/stored-data')
+  })
+
+  it('quarantines an invalid profile instead of sending it with every request', async () => {
+    const profile = { organType: 'spleen', transplantDate: null }
+    await storage.secureSet('patientProfile', profile)
+
+    expect(await storedData.loadStoredData('patientProfile')).toBeNull()
+    expect(await storedData.loadQuarantine()).toMatchObject([{ storageKey: 'patientProfile', record: profile }])
+    expect(await storage.secureGet('patientProfile', null)).toEqual({ schemaVersion: 1, data: null })
+  })
+
+  it('keeps the valid records of a collection and quarantines the rest', async () => {
+    const taken = {
+      id: 'med-1_1',
+      medicationId: 'med-1',
+      scheduledTime: '2026-03-01T08:00:00.000Z',
+      actualTime: '2026-03-01T08:05:00.000Z',
+      status: 'taken',
+      source: 'app',
+    }
+    await storage.secureSet('doseHistory', [taken, { ...taken, id: 'med-1_2', status: 'lost' }])
+    await storage.secureSet('intakeLog_2026-03-01', [{ id: 'entry-1', foodName: '' }])
+
+    expect(await storedData.loadStoredData('doseHistory')).toEqual([taken])
+    expect(await storedData.loadStoredData('intakeLog_2026-03-01')).toEqual([])
+    expect((await storedData.loadQuarantine()).map((entry) => entry.storageKey)).toEqual([
+      'doseHistory',
+      'intakeLog_2026-03-01',
+    ])
+  })
+
+  it('leaves data saved by a newer version of the app untouched', async () => {
+    const saved = { schemaVersion: 99, data: [{ id: 'med-1', name: 'Tacrolimus' }] }
+    await storage.secureSet('medications', saved)
+
+    expect(await storedData.loadStoredData('medications')).toEqual([])
+    expect(await storage.secureGet('medications', null)).toEqual(saved)
+    expect(await storedData.loadQuarantine()).toEqual([])
+  })
+})
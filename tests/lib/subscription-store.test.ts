@@ -0,0 +1,52 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFileSubscriptionStore, type SubscriptionRecord } from '@/app/lib/subscription-store'
+
+function record(endpoint: string): SubscriptionRecord {
+  return {
+    subscription: { endpoint, keys: { p256dh: 'key', auth: 'auth' } },
+    createdAt: '2026-03-01T00:00:00.000Z',
+    lastUsedAt: '2026-03-01T00:00:00.000Z',
+    platform: 'ios',
+  }
+}
+
+describe('createFileSubscriptionStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'subscription-store-test-'))
+    filePath = path.join(dir, 'push-subscriptions.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('keeps changes made by other processes sharing the file', () => {
+    const first = createFileSubscriptionStore(filePath)
+    const second = createFileSubscriptionStore(filePath)
+    expect(first.entries()).toEqual([])
+
+    first.set('user_a', record('https://push.example.com/a'))
+    second.set('user_b', record('https://push.example.com/b'))
+    first.replace('user_a', 'user_c', record('https://push.example.com/c'))
+    second.delete('user_b')
+
+    expect(createFileSubscriptionStore(filePath).entries().map(([id]) => id)).toEqual(['user_c'])
+    expect(second.get('user_c')?.subscription.endpoint).toBe('https://push.example.com/c')
+  })
+
+  it('takes over a lock left behind by a crashed process', () => {
+    fs.writeFileSync(`${filePath}.lock`, '')
+    const stale = new Date(Date.now() - 60 * 1000)
+    fs.utimesSync(`${filePath}.lock`, stale, stale)
+
+    createFileSubscriptionStore(filePath).set('user_a', record('https://push.example.com/a'))
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false)
+    expect(createFileSubscriptionStore(filePath).get('user_a')).toBeDefined()
+  })
+})
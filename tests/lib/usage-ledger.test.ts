@@ -0,0 +1,71 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  checkUsageQuota,
+  createFileUsageStore,
+  createMemoryUsageStore,
+  recordUsage,
+  setUsageStore,
+  summarizeUsage,
+} from '@/app/lib/usage-ledger'
+
+describe('createFileUsageStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-test-'))
+    filePath = path.join(dir, 'usage.json')
+  })
+
+  afterEach(() => {
+    setUsageStore(createMemoryUsageStore())
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('keeps usage recorded by other processes sharing the file', () => {
+    const now = new Date('2026-03-01T12:00:00Z')
+    const first = createFileUsageStore(filePath)
+    const second = createFileUsageStore(filePath)
+    // Both have read the empty ledger before either records
+    first.read()
+    second.read()
+
+    setUsageStore(first)
+    recordUsage({ client: 'install_a', network: 'ip:10.0.0.1' }, 'meals', { inputTokens: 1000, outputTokens: 500 }, now)
+    setUsageStore(second)
+    recordUsage({ client: 'install_b', network: 'ip:10.0.0.1' }, 'meals', { inputTokens: 2000, outputTokens: 500 }, now)
+
+    setUsageStore(createFileUsageStore(filePath))
+    expect(summarizeUsage(1, now).days).toEqual([
+      expect.objectContaining({ day: '2026-03-01', clients: 2, requests: 2, inputTokens: 3000, outputTokens: 1000 }),
+    ])
+  })
+})
+
+describe('checkUsageQuota', () => {
+  const now = new Date('2026-03-01T12:00:00Z')
+
+  beforeEach(() => {
+    setUsageStore(createMemoryUsageStore())
+  })
+
+  it('limits fresh install ids on one network by the network quota', () => {
+    for (let i = 0; i < 4; i++) {
+      recordUsage({ client: `install_${i}`, network: 'ip:10.0.0.1' }, 'meals', { inputTokens: 9000, outputTokens: 1000 }, now)
+    }
+
+    expect(checkUsageQuota({ client: 'install_new', network: 'ip:10.0.0.1' }, 'meals', now)).toMatchObject({
+      allowed: false,
+      scope: 'network',
+      used: 40000,
+    })
+    expect(checkUsageQuota({ client: 'install_new', network: 'ip:10.0.0.2' }, 'meals', now)).toMatchObject({
+      allowed: true,
+      scope: 'device',
+      used: 0,
+    })
+  })
+})
@@ -0,0 +1,22 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Server stores stay in memory and nothing reaches the network
+    env: {
+      RATE_LIMIT_STORE: 'memory',
+      USAGE_STORE: 'memory',
+      PUSH_SUBSCRIPTION_STORE: 'memory',
+      REMINDER_STORE: 'memory',
+      ANTHROPIC_API_KEY: '',
+    },
+  },
+})